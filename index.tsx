@@ -1,18 +1,23 @@
 import React, { useState, useRef, FC, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from '@google/genai';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { GoogleGenAI, Type, Schema } from '@google/genai';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { jsPDF, TextOptionsLight } from 'jspdf';
 
 // --- Configuration ---
-const MODEL_NAME = 'gemini-3-pro-preview'; // Reverted to single high-reasoning model
-declare var html2pdf: any;
+const MODEL_NAME = 'gemini-3-pro-preview'; // Default for every stage unless overridden in Settings
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
 
-const COUNTRIES = [
-  "Vietnam", "United States", "United Kingdom", "Singapore", 
-  "Japan", "South Korea", "Australia", "Germany", 
-  "France", "India", "Brazil", "Canada", "Thailand", "Indonesia"
-];
+// Personas generated per market; large councils lean on the request pool in Settings
+const MAX_COUNCIL_SIZE = 100;
+
+// Repeated judgment calls per persona per asset
+const MAX_SAMPLES = 5;
+
+// Labels available for head-to-head comparison variants
+const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
 
 // --- Types ---
 
@@ -26,6 +31,46 @@ interface BrandProfile {
   uniqueSellingPropositions: string[]; 
 }
 
+// Parsed from the brief the user pasted or uploaded; every asset is checked against it
+interface CreativeBrief {
+  objectives: string[];
+  keyMessage: string;
+  mandatories: string[];
+  target: string;
+  tone: string[]; // Empty when the brief doesn't say; the brand tone applies instead
+}
+
+// One asset scored against the brief by an impartial reviewer, not by the personas
+interface BriefFit {
+  assetId: string;
+  takeaway: string; // What a viewer would actually take away
+  messageMatch: number; // 0-100 against the key message
+  mandatories: { item: string; present: boolean; note: string }[];
+  toneMatch: number; // 0-100
+  toneNotes: string;
+}
+
+interface PaletteSwatch {
+  hex: string;
+  share: number; // % of sampled pixels
+  neutral: boolean;
+  nearest: string; // Closest brand color, as written in the brand profile
+  nearestHex: string;
+  deltaE: number; // CIEDE2000 distance to the closest brand color
+  onBrand: boolean;
+}
+
+// Computed locally from the asset's pixels; recomputed rather than saved
+interface PaletteCheck {
+  assetId: string;
+  score: number; // 0-100 palette adherence
+  swatches: PaletteSwatch[];
+  offBrand: PaletteSwatch[];
+  framesSampled: number;
+}
+
+type LocationType = 'urban' | 'suburban' | 'rural';
+
 interface Persona {
   id: string;
   name: string;
@@ -33,10 +78,17 @@ interface Persona {
   occupation: string;
   bio: string;
   painPoints: string[]; // Used for Emotional Drivers/Frustrations
+  // Demographics are optional so older saved personas and CSV imports still load
+  gender?: string;
+  location?: string;
+  household?: string;
+  locationType?: LocationType;
+  market?: string; // The market whose council the persona sits on
 }
 
 interface Judgment {
   personaId: string;
+  assetId: string; // Each persona scores each asset separately
   score: number; // 0-100
   quote: string;
   pros: string[];
@@ -46,7 +98,49 @@ interface Judgment {
   emotionalIntensity?: number;
   shareLikelihood?: number;
   trustPerception?: string;
+  firstImpressionSeconds?: number;
+  shareWith?: string;
+  languageCues?: string[];
   timecodedReactions?: {time: string; reaction: string}[];
+  original?: NativeReaction; // Set when the persona answered in its market's language; the fields above hold the translation
+  samples?: JudgmentSample[]; // Every repeat when the persona judged the asset more than once; the fields above summarise them
+}
+
+type JudgmentSample = Omit<Judgment, 'personaId' | 'assetId' | 'samples'>;
+
+// The persona's own words, kept beside the English translation on the judgment
+interface NativeReaction {
+  language: string;
+  quote: string;
+  pros: string[];
+  cons: string[];
+}
+
+interface Comparison {
+  personaId: string;
+  preferredVariant: string; // One of VARIANT_LABELS
+  margin: number; // 1-10, how decisive the preference was
+  reason: string;
+  emotionalTags?: string[];
+}
+
+interface FailedJudgment {
+  personaId: string;
+  assetId?: string; // Absent when the head-to-head comparison call failed
+  error: string;
+}
+
+interface InterviewMessage {
+  role: 'user' | 'persona';
+  text: string;
+  at: number;
+}
+
+// Follow-up chat with one persona about one asset, continuing from their judgment
+interface Interview {
+  personaId: string;
+  assetId: string;
+  messages: InterviewMessage[];
 }
 
 interface Asset {
@@ -54,33 +148,516 @@ interface Asset {
   file: File;
   previewUrl: string;
   mimeType: string;
+  variant?: string; // Set when the asset takes part in an A/B comparison
+  videoInfo?: VideoInfo; // Read on upload, videos only
+  strategy?: VideoStrategy; // Set when the user overrides the size-based default
+  keyframes?: number[]; // Timestamps (seconds) sent to the model, once judged from keyframes
+}
+
+interface VideoInfo {
+  duration: number; // Seconds
+  width: number;
+  height: number;
+}
+
+// Videos go to the model as the raw file, or as sampled frames with timestamps
+type VideoStrategy = 'inline' | 'keyframes';
+
+type KeyframeMode = 'rate' | 'scene';
+
+interface VideoPreprocessing {
+  mode: KeyframeMode;
+  interval: number; // Seconds between frames in 'rate' mode
+  sceneThreshold: number; // 1-10 sensitivity in 'scene' mode; higher catches subtler cuts
+  inlineLimitMb: number; // Larger videos default to keyframes
+}
+
+interface SynthesisJudgmentInput {
+  personaId: string;
+  personaName: string;
+  role?: string;
+  age?: number;
+  generation?: string;
+  gender?: string;
+  location?: string;
+  locationType?: LocationType;
+  market?: string;
+  score: number;
+  quote: string;
+  verdict?: string;
+  emotionalTags?: string[];
+  emotionalIntensity?: number;
+  shareLikelihood?: number;
+  trustPerception?: string;
+  shareWith?: string;
+  languageCues?: string[];
+  pros?: string[];
+  cons?: string[];
+  timecodedReactions?: {time: string; reaction: string}[];
+}
+
+interface SynthesisAssetInput {
+  assetId: string;
+  assetName: string;
+  mediaType: 'image' | 'video';
+  averageScore: number;
+  judgments: SynthesisJudgmentInput[];
+}
+
+// One market's slice of a multi-market run, computed locally
+interface MarketStats {
+  market: string;
+  personas: number;
+  judgments: number;
+  mean: number;
+  stdDev: number;
+  avgShare: number;
+  assets: { assetId: string; assetName: string; mean: number; avgShare: number }[];
+  emotions: { tag: string; share: number; elsewhere: number }[]; // % of judgments carrying the tag, here vs other markets
+  quotes: { personaName: string; assetName: string; score: number; quote: string; gap: number }[]; // Gap to other markets' mean on the asset
+}
+
+interface ComparisonSynthesisInput {
+  variants: { label: string; assetNames: string[] }[];
+  results: { label: string; wins: number; winRate: number; avgMargin: number }[];
+  preferences: { personaName: string; preferredVariant: string; margin: number; reason: string; emotionalTags?: string[] }[];
+}
+
+// Another persona's current position as shown in the debate, without their name
+interface DebatePosition {
+  label: string;
+  score: number;
+  quote: string;
+  pros: string[];
+  cons: string[];
+  lastReply?: string;
+}
+
+// One persona's reply in one debate round about one asset. Round 0 is the original judgment.
+interface DebateTurn {
+  round: number;
+  personaId: string;
+  assetId: string;
+  reply: string;
+  previousScore: number;
+  score: number;
+  reason: string; // Why the score moved, or why it held
+}
+
+interface DebateMovement {
+  assetId: string;
+  assetName: string;
+  rounds: { round: number; mean: number; stdDev: number }[];
+  trend: 'converged' | 'polarized' | 'steady';
+  revisions: number; // Turns in which a persona changed their score
+}
+
+interface DebateSynthesisInput {
+  rounds: number;
+  movement: DebateMovement[];
+  transcript: { round: number; assetName: string; personaName: string; previousScore: number; score: number; reply: string; reason: string }[];
+}
+
+interface CouncilStats {
+  personaCount: number;
+  assetCount: number;
+  judgmentCount: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  distribution: { range: string; count: number }[];
+  avgIntensity: number;
+  avgShare: number;
+  shareStdDev: number;
+  consensusIndex: number; // % of judgments within +/-10 points of the mean
+  polarizationIndex: number; // % of judgments in 0-20 or 81-100
+  emotions: { tag: string; count: number; avgIntensity: number }[];
+  fastImpressionShare: number | null; // % of judgments formed within FAST_IMPRESSION_SECONDS; null when none reported a time
+  trust: { label: string; count: number; share: number }[]; // trustPerception words, most common first
+  topPros: { text: string; count: number }[];
+  topCons: { text: string; count: number }[];
+  outliers: { personaName: string; assetName: string; score: number; deviation: number }[];
+  assets: { assetId: string; assetName: string; judgments: number; mean: number; median: number; stdDev: number; spread: number; avgShare: number; topEmotion: string | null }[];
+  winner: { assetId: string; assetName: string; marginOverRunnerUp: number } | null;
+  demographics: Record<DemographicDimension, SliceStat[]>;
+  sampling: SamplingSummary | null; // Only when personas were judged more than once
+}
+
+interface MetricInterval {
+  mean: number;
+  stdDev: number; // Sample standard deviation
+  low: number; // 95% confidence interval
+  high: number;
+  n: number;
+}
+
+// One persona's repeated reactions to one asset
+interface SampledJudgmentStat {
+  personaId: string;
+  personaName: string;
+  assetId: string;
+  assetName: string;
+  samples: number;
+  score: MetricInterval;
+  intensity: MetricInterval | null;
+  share: MetricInterval | null;
+  unstable: boolean;
+}
+
+interface SamplingSummary {
+  samplesPerPersona: number;
+  // Council intervals treat each persona's mean for an asset as one observation
+  score: MetricInterval;
+  intensity: MetricInterval | null;
+  share: MetricInterval | null;
+  noise: number; // Average score standard deviation within a persona's samples
+  unstable: { personaName: string; assetName: string; stdDev: number; low: number; high: number }[];
+}
+
+type DemographicDimension = 'generation' | 'gender' | 'locationType';
+
+interface SliceStat {
+  slice: string;
+  personas: number;
+  judgments: number;
+  mean: number;
+  topEmotion: string | null;
+}
+
+interface TimelineReaction {
+  seconds: number;
+  time: string;
+  reaction: string;
+  personaId: string;
+  personaName: string;
+}
+
+interface AttentionMoment {
+  seconds: number;
+  reactions: TimelineReaction[];
+}
+
+// Frames grabbed at the most-cited moments of a video, for the static PDF timeline
+interface AttentionFrames {
+  duration: number;
+  frames: { seconds: number; image: string }[];
+}
+
+interface LibraryPersona extends Persona {
+  savedAt: number;
+  updatedAt: number;
+}
+
+interface SavedCouncil {
+  id: string;
+  name: string;
+  personaIds: string[];
+  createdAt: number;
+}
+
+type PersonaSource = 'generate' | 'saved' | 'mix';
+
+interface StoredAsset {
+  id: string;
+  name: string;
+  mimeType: string;
+  blob: Blob;
+  variant?: string;
+  videoInfo?: VideoInfo;
+  strategy?: VideoStrategy;
+  keyframes?: number[];
+}
+
+interface SavedRun {
+  id: string;
+  name: string;
+  startedAt: number;
+  createdAt: number; // When the run completed and was first saved
+  updatedAt: number;
+  url: string;
+  country: string; // Markets joined for display; runs saved before multi-market runs have only this
+  markets?: string[];
+  brandProfile: BrandProfile;
+  personas: Persona[];
+  judgments: Judgment[];
+  comparisons: Comparison[];
+  failedJudgments?: FailedJudgment[];
+  interviews?: Interview[];
+  usage?: UsageRecord[];
+  debate?: DebateTurn[];
+  brief?: CreativeBrief;
+  briefFits?: BriefFit[];
+  finalReport: string;
+  logs: string[];
+  assets: StoredAsset[];
+  settings?: RunSettings; // Missing on runs saved before settings were recorded
+}
+
+type PromptName = keyof typeof PromptEngine;
+
+// What produced a run, so an exported report can be traced back to its configuration
+interface RunSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string;
+  numPersonas: number;
+  personaSource: PersonaSource;
+  comparisonMode: boolean;
+  reviewMode: boolean;
+  debateRounds?: number; // Missing on runs saved before debates existed
+  videoPreprocessing?: VideoPreprocessing;
+  generation?: Record<GenerationStage, StageGeneration>; // With the model each stage resolved to
+  budget?: number;
+  samplesPerPersona?: number;
+  concurrency?: ConcurrencySettings;
+  markets?: Market[]; // As defined when the run started, so custom markets survive deletion
+  nativeLanguage?: boolean;
+  promptVersions: Record<PromptName, string>; // custom-N where a saved template replaced the built-in prompt
+  promptTemplates?: Partial<Record<TemplateName, string>>; // Text of the custom templates the run used
+}
+
+type TemplateName = 'research' | 'personaGeneration' | 'judgment' | 'synthesis'; // The prompts editable in the app
+
+interface PromptTemplateVersion {
+  template: TemplateName;
+  version: number; // Counts from 1 per template; the built-in default is version 0
+  text: string;
+  note: string;
+  savedAt: number;
+}
+
+interface PromptTemplateStore {
+  versions: PromptTemplateVersion[];
+  active: Partial<Record<TemplateName, number>>; // Missing means the built-in default
 }
 
+interface Market {
+  name: string;
+  region: string;
+  language: string; // Personas answer in it when local-language reactions are on
+  culturalNotes?: string;
+  custom?: boolean; // Defined by the user rather than built in
+}
+
+type ProviderId = 'gemini' | 'openai' | 'mock';
+
+interface ConcurrencySettings {
+  maxParallel: number; // Persona tasks in flight at once
+  requestsPerMinute: number; // 0 means no cap
+}
+
+// How many of a persona's tasks sit in each state during the current stage
+interface PersonaJobs {
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+}
+
+interface ProviderSettings {
+  provider: ProviderId;
+  geminiApiKey: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  prices: PriceTable;
+  generation: Record<GenerationStage, StageGeneration>;
+  concurrency: ConcurrencySettings;
+}
+
+// The stages with their own model settings; debates and interviews use the judging settings
+type GenerationStage = 'research' | 'personas' | 'judging' | 'synthesis';
+
+interface StageGeneration {
+  model: string; // Empty uses the provider's default model
+  temperature?: number; // Unset leaves the provider's default
+  topP?: number;
+  thinkingBudget?: number; // Tokens; Gemini only
+}
+
+// USD per million tokens, keyed by model name
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+type PriceTable = Record<string, ModelPrice>;
+
+type BudgetMode = 'warn' | 'abort';
+
 interface AppState {
-  status: 'idle' | 'researching' | 'creating_personas' | 'judging' | 'synthesizing' | 'complete';
+  status: 'idle' | 'researching' | 'creating_personas' | 'judging' | 'debating' | 'synthesizing' | 'reviewing' | 'failed' | 'complete';
+  failedStage: PipelineStage | null; // Set with status 'failed'; the run can resume from here
+  stageError: string;
+  failedJudgments: FailedJudgment[];
+  retryingPersonaIds: string[];
+  personaJobs: Record<string, PersonaJobs>; // Keyed by persona id; reset when a pooled stage starts
+  synthesisStale: boolean; // Judgments changed after the synthesis was written
+  debate: DebateTurn[];
+  debateRounds: number; // 0 skips the debate stage
+  interviews: Interview[];
+  includeInterviews: boolean; // Whether report exports carry the interview transcripts
+  reviewMode: boolean; // Pause after each stage so results can be corrected
+  reviewStage: PipelineStage | null; // The stage whose results are awaiting review
   progress: number; // 0 to 100
   logs: string[];
   isLogExpanded: boolean;
   brandProfile: BrandProfile | null;
+  briefText: string; // Pasted, or loaded from a text/Markdown upload
+  briefFile: File | null; // PDF briefs are read by the model directly
+  brief: CreativeBrief | null;
+  briefFits: BriefFit[];
+  paletteChecks: PaletteCheck[];
+  videoPreprocessing: VideoPreprocessing;
+  usage: UsageRecord[];
+  budget: number; // USD; 0 means no cap
+  budgetMode: BudgetMode;
   personas: Persona[];
   judgments: Judgment[];
+  comparisons: Comparison[];
+  comparisonMode: boolean;
   finalReport: string;
   url: string;
-  country: string;
+  markets: string[]; // The first is the primary market; each gets its own council
+  customMarkets: Market[];
+  nativeLanguage: boolean; // Personas react in their market's language, translated to English alongside
   numPersonas: number;
+  samplesPerPersona: number; // Judgment calls per persona per asset
+  personaSource: PersonaSource;
+  selectedCouncilId: string | null;
   assets: Asset[];
   isDownloading: boolean;
-  apiKey: string;
+  currentRunId: string | null; // Set once the run is saved to history
+  runStartedAt: number | null;
+  runSettings: RunSettings | null; // Snapshot taken when the run starts
+  isHistoryOpen: boolean;
+  isLibraryOpen: boolean;
+  providerSettings: ProviderSettings;
   isSettingsOpen: boolean;
+  promptTemplates: PromptTemplateStore;
+  isTemplatesOpen: boolean;
 }
 
-// --- Prompt Engine ---
+// --- Markets ---
+// Built-in markets carry their main language; custom ones are kept in the browser.
+
+const BUILT_IN_MARKETS: Market[] = [
+  { name: 'Vietnam', region: 'Southeast Asia', language: 'Vietnamese' },
+  { name: 'United States', region: 'North America', language: 'English' },
+  { name: 'United Kingdom', region: 'Western Europe', language: 'English' },
+  { name: 'Singapore', region: 'Southeast Asia', language: 'English' },
+  { name: 'Japan', region: 'East Asia', language: 'Japanese' },
+  { name: 'South Korea', region: 'East Asia', language: 'Korean' },
+  { name: 'Australia', region: 'Oceania', language: 'English' },
+  { name: 'Germany', region: 'Western Europe', language: 'German' },
+  { name: 'France', region: 'Western Europe', language: 'French' },
+  { name: 'India', region: 'South Asia', language: 'Hindi' },
+  { name: 'Brazil', region: 'Latin America', language: 'Portuguese' },
+  { name: 'Canada', region: 'North America', language: 'English' },
+  { name: 'Thailand', region: 'Southeast Asia', language: 'Thai' },
+  { name: 'Indonesia', region: 'Southeast Asia', language: 'Indonesian' }
+];
 
-const PromptEngine = {
-  research: (url: string) => `
+// Markets from older runs or deleted definitions fall back to English with no notes
+const findMarket = (name: string, customMarkets: Market[]): Market =>
+  [...BUILT_IN_MARKETS, ...customMarkets].find(m => m.name === name) || { name, region: '', language: 'English' };
+
+const isEnglish = (language: string) => /^english\b/i.test(language.trim());
+
+// The language a persona should answer in, or undefined when that is English anyway
+const reactionLanguage = (market: Market, nativeLanguage: boolean) =>
+  nativeLanguage && !isEnglish(market.language) ? market.language : undefined;
+
+const loadCustomMarkets = (): Market[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem('custom_markets') || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomMarkets = (markets: Market[]) => localStorage.setItem('custom_markets', JSON.stringify(markets));
+
+// --- Prompt Templates ---
+// The prompts strategists may reword in the app. Placeholders are {{name}}; optional text sits in
+// {{#if name}}...{{else}}...{{/if}} and is kept only when the variable is non-empty.
+
+const TEMPLATE_NAMES: TemplateName[] = ['research', 'personaGeneration', 'judgment', 'synthesis'];
+
+const TEMPLATE_LABELS: Record<TemplateName, string> = {
+  research: 'Brand Research',
+  personaGeneration: 'Persona Generation',
+  judgment: 'Judgment',
+  synthesis: 'Synthesis'
+};
+
+const BRAND_TEMPLATE_VARIABLES = {
+  'brand.name': 'Brand name',
+  'brand.category': 'Industry or category',
+  'brand.tone': 'Tone words, comma-separated',
+  'brand.usps': 'Unique selling propositions, semicolon-separated',
+  'brand.targetAudience': 'Primary target audience',
+  'brand.competitors': 'Key competitors, comma-separated'
+};
+
+// Every placeholder a template may use, with the description shown in the editor
+const TEMPLATE_VARIABLES = {
+  research: {
+    url: 'The brand URL being audited'
+  },
+  personaGeneration: {
+    ...BRAND_TEMPLATE_VARIABLES,
+    count: 'Number of personas to create in this batch',
+    country: 'Market name, e.g. Vietnam',
+    'market.region': 'Region of the market, e.g. Southeast Asia',
+    'market.language': 'Main language of the market',
+    'market.culturalNotes': 'Cultural notes of a custom market; empty for built-in markets',
+    existingMembers: 'Members already on the council, one "- name, age, occupation" line each; empty when none'
+  },
+  judgment: {
+    ...BRAND_TEMPLATE_VARIABLES,
+    'persona.name': 'Persona name',
+    'persona.age': 'Persona age',
+    'persona.occupation': 'Persona occupation',
+    'persona.bio': 'Persona bio',
+    'persona.painPoints': 'Emotional drivers and frustrations, comma-separated',
+    'persona.location': 'City or region; may be empty',
+    'asset.name': 'File name of the asset being judged',
+    'asset.position': 'Position of the asset in the campaign, from 1',
+    'asset.total': 'Number of assets in the campaign',
+    language: 'Language to react in when local-language reactions are on; empty for English'
+  },
+  synthesis: {
+    ...BRAND_TEMPLATE_VARIABLES,
+    multipleAssets: 'Non-empty when more than one asset was judged',
+    assetCount: 'Number of assets judged',
+    judgmentsJson: 'Judgments grouped by asset, as JSON',
+    statsJson: 'Fixed council statistics, as JSON',
+    comparisonJson: 'Head-to-head comparison data as JSON; empty unless comparing variants',
+    debateJson: 'Debate data as JSON; empty unless the council debated',
+    debateRounds: 'Number of debate rounds; empty unless the council debated',
+    marketsJson: 'Per-market statistics as JSON; empty unless several markets ran',
+    samplesPerPersona: 'Samples per persona; empty unless repeated sampling was on'
+  }
+} satisfies Record<TemplateName, Record<string, string>>;
+
+type TemplateValues<N extends TemplateName> = Record<keyof (typeof TEMPLATE_VARIABLES)[N], string>;
+
+const brandVariables = (brand: BrandProfile): Record<keyof typeof BRAND_TEMPLATE_VARIABLES, string> => ({
+  'brand.name': brand.name,
+  'brand.category': brand.category,
+  'brand.tone': brand.tone.join(', '),
+  'brand.usps': brand.uniqueSellingPropositions.join('; '),
+  'brand.targetAudience': brand.targetAudience,
+  'brand.competitors': (brand.competitors || []).join(', ')
+});
+
+const DEFAULT_PROMPT_TEMPLATES: Record<TemplateName, string> = {
+  research: `
     You are a Senior Brand Strategist conducting a deep audit.
     
-    Target URL: ${url}
+    Target URL: {{url}}
     
     Your Goal: Analyze the brand's digital presence to understand their positioning for an advertising critique.
     
@@ -93,19 +670,25 @@ const PromptEngine = {
     6. Unique Selling Propositions (What makes them different?).
   `,
 
- personaGeneration: (brand: BrandProfile, count: number, country: string) => `
-You are a Market Research Director focused on the ${country} market.
+  personaGeneration: `
+You are a Market Research Director focused on the {{country}} market{{#if market.region}} ({{market.region}}){{/if}}.
 
-Context: We are testing creative assets for "${brand.name}".
+Context: We are testing creative assets for "{{brand.name}}".
 
 Brand Context:
-- Industry: ${brand.category}
-- Tone: ${brand.tone.join(', ')}
-- USPs: ${brand.uniqueSellingPropositions.join('; ')}
-- Target Audience: ${brand.targetAudience}
-
-Task: Create ${count} distinct, realistic audience personas from ${country} to form a "Creative Council" whose sole purpose is to react emotionally to creative assets.
-
+- Industry: {{brand.category}}
+- Tone: {{brand.tone}}
+- USPs: {{brand.usps}}
+- Target Audience: {{brand.targetAudience}}
+
+Task: Create {{count}} distinct, realistic audience personas from {{country}} to form a "Creative Council" whose sole purpose is to react emotionally to creative assets.
+{{#if market.culturalNotes}}
+Cultural notes on {{country}} from the research team. Let them shape who you recruit and how these people live:
+{{market.culturalNotes}}
+{{/if}}{{#if existingMembers}}
+The council already has these returning members. Do not duplicate them; fill the gaps they leave in the diversity mix:
+{{existingMembers}}
+{{/if}}
 DIVERSITY REQUIREMENT:
 Include a wide range across:
 - Ages: mix of generations where relevant
@@ -117,11 +700,12 @@ Include a wide range across:
 
 Persona JSON structure (return as JSON array). Each persona must include:
 - id: unique id
-- name: culturally authentic name from ${country}
+- name: culturally authentic name from {{country}}
 - age: integer
 - gender: string
 - occupation: string
-- location: string
+- location: string (city or region)
+- locationType: one of "urban", "suburban", "rural"
 - household: short description
 - mediaHabits: brief (platforms, frequency, preferred format)
 - bio: 2-3 sentence lived snapshot explaining lifestyle and vibes
@@ -138,15 +722,16 @@ Important: Use "painPoints" to capture emotional and sensory frustrations, not o
 Return the personas as a JSON array.
 `,
 
-judgment: (persona: Persona, brand: BrandProfile) => `
+  judgment: `
 Roleplay instructions:
-You are ${persona.name}.
-- Age: ${persona.age}
-- Occupation: ${persona.occupation}
-- Bio: "${persona.bio}"
-- Emotional Drivers / Frustrations: ${persona.painPoints.join(', ')}
+You are {{persona.name}}.
+- Age: {{persona.age}}
+- Occupation: {{persona.occupation}}
+- Bio: "{{persona.bio}}"
+- Emotional Drivers / Frustrations: {{persona.painPoints}}
 
-Context: You see this creative asset from ${brand.name} while browsing your usual feed.
+Context: You see this creative asset from {{brand.name}} while browsing your usual feed.
+It is execution {{asset.position}} of {{asset.total}} in the campaign ("{{asset.name}}"). React to this execution only, on its own merits.
 
 Task: Provide a raw, first-person emotional reaction. Speak like a real person. No marketing jargon. Focus only on feelings, perceptions, and likely in-feed behavior.
 
@@ -178,81 +763,120 @@ Include these fields in JSON output:
 }
 
 Tone: conversational, sensory, human. Avoid words like CTA, conversion, funnel, or strategy language.
-`,
+{{#if language}}
+Language: Write "quote", "pros" and "cons" in {{language}}, the way you would actually say them. Then translate them faithfully into English as "quoteEnglish", "prosEnglish" and "consEnglish", keeping the same order. Every other field stays in English.
+{{/if}}`,
 
-synthesis: (brand: BrandProfile, judgments: { personaId: string; personaName: string; age?: number; gender?: string; location?: string; score: number; quote: string; emotionalTags?: string[]; emotionalIntensity?: number; shareLikelihood?: number; trustPerception?: string; pros?: string[]; cons?: string[]; timecodedReactions?: {time: string; reaction: string}[] }[]) => `
-You are an impartial summarizer compiling what the Creative Council felt about the asset for ${brand.name}.
+  synthesis: `
+You are an impartial summarizer compiling what the Creative Council felt about the {{#if multipleAssets}}{{assetCount}} executions{{else}}asset{{/if}} for {{brand.name}}.
 
-Input data:
-${JSON.stringify(judgments, null, 2)}
+Input data (judgments grouped by asset; every persona scored every asset separately):
+{{judgmentsJson}}
 
-Brand context:
-- Intended Tone: ${brand.tone.join(', ')}
-- USPs: ${brand.uniqueSellingPropositions.join('; ')}
+Fixed statistics, computed from these judgments before this prompt was written:
+{{statsJson}}
 
+Brand context:
+- Intended Tone: {{brand.tone}}
+- USPs: {{brand.usps}}
+{{#if comparisonJson}}
+Head-to-head comparison data (each persona saw every variant and was forced to pick one; "results" is fixed):
+{{comparisonJson}}
+{{/if}}{{#if debateJson}}
+Council debate (after judging, personas read each other's anonymized reactions over {{debateRounds}} round(s) and could revise their scores; "movement" is fixed):
+{{debateJson}}
+{{/if}}{{#if marketsJson}}
+Market comparison (each market had its own council, recruited locally; every field is fixed. "emotions" compares the % of judgments carrying a tag in the market with the other markets; "quotes" are the reactions furthest from the other markets' mean on the same asset):
+{{marketsJson}}
+{{/if}}
 Task: Produce a detailed, neutral emotional synthesis that reports how personas reacted. Do not include recommendations, tests, or any strategic/operational language.
 
-Output Structure (Markdown). Compute and report all requested metrics. Use plain language and factual statements only.
-
-## Quick Quantitative Snapshot
-- N (number of personas): [compute]
-- Average score: [mean, 0-100]
-- Median score: [median]
-- Std dev of scores: [value]
-- Score distribution counts: [0-20, 21-40, 41-60, 61-80, 81-100]
-- Average emotionalIntensity: [0-10]
-- Average shareLikelihood: [0-100]
-- Consensus index: percent of personas within +/-10 points of the mean
-- Polarization index: percent of personas in 0-20 plus 81-100 combined
+Rules for numbers:
+- The fixed statistics are facts. Quote them exactly as given; never recompute, re-round or contradict them.
+- The report already shows the fixed statistics as tables. Do not reproduce those tables; write the narrative that explains them.
+- Do not invent any other averages, percentages or standard deviations.{{#if debateJson}}
+- The fixed statistics describe the independent verdicts, before the debate. Only the debate section reports post-debate scores.{{/if}}
+
+Output Structure (Markdown). Use plain language and factual statements only.
+
+## Execution Ranking
+- Using the fixed per-asset statistics, name the winning execution and its margin over the runner-up
+- Describe why personas preferred it, drawing on their quotes, pros and cons
+- Note any asset whose spread is over 40 points and what the disagreement was about
+- If only one asset was provided, state that no ranking applies
+{{#if comparisonJson}}
+## Head-to-Head Comparison
+- Report the fixed win rate and average margin per variant
+- Split by persona: which variant each persona picked, the margin, and their reason in a few words
+- Split by emotion: which emotions were attached to wins for each variant
+- Note any variant that won on forced choice but lost on average absolute score, or vice versa
+{{/if}}{{#if debateJson}}
+## Council Debate
+- Using the fixed movement per asset, say whether the council converged, polarized or held steady, with the mean and standard deviation before and after
+- Name who changed their score, by how much, and the reason they gave
+- Quote the argument that moved someone, and the one nobody accepted
+{{/if}}{{#if marketsJson}}
+## Market Comparison
+- Using the fixed per-market means, name the market that rated the work highest and lowest, and the gap between them; note if the execution ranking flips between markets
+- Share likelihood by market, quoting the fixed averages
+- Emotions each market over-indexes on compared with the others
+- For each market, one or two of the fixed quotes and what in the local culture or context the reaction points to; call it an observation, not a cultural rule
+- Treat a market with fewer than three personas as anecdotal
+{{/if}}{{#if samplesPerPersona}}
+## Sampling Stability
+- Every persona judged each asset up to {{samplesPerPersona}} times. Report the fixed council 95% confidence intervals for score, intensity and share likelihood, and the average within-persona spread ("noise")
+- Name the personas in the fixed "unstable" list and say their individual scores should be read with caution
+- If the winning execution's margin is narrower than the confidence intervals, say the ranking may not hold on a rerun
+{{/if}}
+## Quantitative Snapshot
+- Two to four sentences interpreting the fixed mean, median, standard deviation, score distribution, consensus index and polarization index
 
 ## Dominant Emotions and Intensity
-- Top 8 emotion tags by frequency with counts (e.g., nostalgic: 7, amused: 5)
-- Average intensity per top emotion (e.g., nostalgic: 7/10 average intensity)
+- Describe the leading emotions from the fixed emotion frequencies and their average intensities
 - Emotional volatility: brief statement of spread (e.g., "narrow range around fondness" or "wide split between delight and disgust")
 
 ## Demographic Slice Sentiment
-- By age group: average score and top emotion for Gen Z, Millennials, Gen X, Boomers (if present)
-- By gender: average score and most common emotion by gender
-- By location type: urban vs suburban vs rural - average score and dominant emotion
-- Note any clear cross-cutting emotional differences tied to demographic slices
+- Use the fixed "demographics" slices (generation, gender, urban/suburban/rural) for every average score and top emotion
+- Describe how the slices differ and what in their quotes explains the gap
+- Treat slices with only one persona as anecdotes, not trends
 
 ## Attention and Moment Analysis
-- First-impression performance: percent of personas reporting a reaction within 3 seconds
+- First-impression performance: quote the fixed "fastImpressionShare" (% of judgments formed within 3 seconds); if it is null, say no timings were reported
 - Top attention moments: if timecodedReactions present, list most-cited timestamps and the reactions attached (up to 5)
 - Attention hooks: aggregated language from judgments about what grabbed attention in the first 3 seconds (e.g., "bright color splash", "unexpected lyric")
 
 ## Shareability and Social Fit
-- Average shareLikelihood and standard deviation
+- What the fixed average shareLikelihood and its standard deviation say about the council
 - Common share targets derived from persona "shareWith" fields (top 3 groups)
-- Typical share captions or vibe implied by personas (short examples drawn from suggestedCaption or quote language)
+- Typical share captions or vibe implied by personas (short examples drawn from quote language)
 
 ## Trust and Authenticity Signals
-- Trust perception breakdown: count of personas who called the brand "trustworthy", "authentic", "cheap", "desperate", etc.
-- Authenticity score (descriptive): percent who used authenticity-related language
+- Trust perception breakdown: quote the fixed "trust" counts and shares (e.g. how many judgments called the brand "trustworthy", "authentic", "cheap")
 - Common cues that increased perceived trust or reduced it (list of sensory/copy cues from persona languageCues)
 
 ## Common Positives (Aggregated)
-- Top 6 pros with counts, listed by frequency across persona pros arrays
+- The fixed "topPros" list with its counts; where the wording differs only slightly, describe the shared theme without adding new counts
 
 ## Common Negatives (Aggregated)
-- Top 6 cons with counts, listed by frequency across persona cons arrays
+- The fixed "topCons" list with its counts; where the wording differs only slightly, describe the shared theme without adding new counts
 
 ## Language and Imagery Patterns
 - Top metaphors, recurring words, or phrases found in persona quotes (top 10)
-- Sensory triggers that came up most often: music, color, voice, pacing, humor, nostalgia (with counts)
+- Sensory triggers that came up most often: music, color, voice, pacing, humor, nostalgia (describe them; do not count them)
 
 ## Outliers and Polarizing Voices
-- List up to 3 personas whose score differs from the mean by more than 25 points, with a one-line note explaining their reaction and why they diverged
+- The fixed outliers list holds every judgment more than 25 points from the mean. For up to 3 of them, write a one-line note explaining the reaction and why it diverged
+- If the list is empty, say that no persona diverged that far
 - If any persona gave an extremely high intensity for a rare emotion, note that as an outlier
 
 ## Representative Quotes
-- 4 brief first-person quotes from different personas that capture the emotional range, labeled by persona name and score
+- 4 brief first-person quotes from different personas that capture the emotional range, labeled by persona name, asset name and score
 
 ## One-line Summary
 - One crisp sentence capturing the overall emotional picture from the Creative Council (no actions, only description)
 
 Notes on methodology:
-- All metrics are derived from the provided judgments array. 
+- All metrics come from the fixed statistics, which were computed from the provided judgments. 
 - If timecodedReactions are not provided, the "Attention and Moment Analysis" section will report first-impression stats only.
 - This synthesis is a neutral emotional report only. It does not include recommendations, tests, or next steps.
 
@@ -260,521 +884,5050 @@ Return the synthesis as Markdown text.
 `
 };
 
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TEMPLATE_TAG = /\{\{\s*(#if\s+[\w.]+|\/if|else|[\w.]+)\s*\}\}/g;
+
+// Throws on unbalanced blocks; templateProblems reports the same errors for the editor
+const parseTemplate = (text: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { block?: Extract<TemplateNode, { kind: 'if' }>; children: TemplateNode[] }[] = [{ children: root }];
+  let last = 0;
+  for (const match of text.matchAll(TEMPLATE_TAG)) {
+    const top = stack[stack.length - 1];
+    const index = match.index ?? 0;
+    if (index > last) top.children.push({ kind: 'text', text: text.slice(last, index) });
+    last = index + match[0].length;
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const block = { kind: 'if' as const, name: tag.slice(3).trim(), then: [], otherwise: [] };
+      top.children.push(block);
+      stack.push({ block, children: block.then });
+    } else if (tag === 'else') {
+      if (!top.block || top.children === top.block.otherwise) throw new Error('{{else}} outside an {{#if}} block');
+      top.children = top.block.otherwise;
+    } else if (tag === '/if') {
+      if (!top.block) throw new Error('{{/if}} without a matching {{#if}}');
+      stack.pop();
+    } else {
+      top.children.push({ kind: 'var', name: tag });
+    }
+  }
+  if (stack.length > 1) throw new Error(`{{#if ${stack[stack.length - 1].block!.name}}} is never closed`);
+  if (last < text.length) root.push({ kind: 'text', text: text.slice(last) });
+  return root;
+};
+
+const renderNodes = (nodes: TemplateNode[], values: Record<string, string>): string => nodes.map(node =>
+  node.kind === 'text' ? node.text
+  : node.kind === 'var' ? values[node.name] ?? ''
+  : renderNodes(values[node.name] ? node.then : node.otherwise, values)
+).join('');
 
-// --- Icons (Cleaned up for minimalist theme) ---
+const renderTemplate = <N extends TemplateName>(template: string, values: TemplateValues<N>) =>
+  renderNodes(parseTemplate(template), values);
 
-const Icons = {
-  Research: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>,
-  Persona: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path><circle cx="9" cy="7" r="4"></circle><path d="M23 21v-2a4 4 0 0 0-3-3.87"></path><path d="M16 3.13a4 4 0 0 1 0 7.75"></path></svg>,
-  Judge: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z"></path><polyline points="3.27 6.96 12 12.01 20.73 6.96"></polyline><line x1="12" y1="22.08" x2="12" y2="12"></line></svg>,
-  Report: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>,
-  Check: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>,
-  Upload: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>,
-  Trash: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>,
-  Council: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2L2 7l10 5 10-5-10-5zm0 9l2.5-1.25L12 8.5l-2.5 1.25L12 11zm0 2.5l-5-2.5-5 2.5L12 22l10-8.5-5-2.5-5 2.5z"/></svg>,
-  ChevronDown: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>,
-  ChevronUp: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="18 15 12 9 6 15"></polyline></svg>,
-  Terminal: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="4 17 10 11 4 5"></polyline><line x1="12" y1="19" x2="20" y2="19"></line></svg>,
-  Download: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>,
-  Video: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polygon points="23 7 16 12 23 17 23 7"></polygon><rect x="1" y="5" width="15" height="14" rx="2" ry="2"></rect></svg>,
-  Expand: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 3 21 3 21 9"></polyline><polyline points="9 21 3 21 3 15"></polyline><line x1="21" y1="3" x2="14" y2="10"></line><line x1="3" y1="21" x2="10" y2="14"></line></svg>,
-  Gear: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"></circle><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"></path></svg>
+const templateVariableNames = (nodes: TemplateNode[]): string[] => nodes.flatMap(node =>
+  node.kind === 'text' ? []
+  : node.kind === 'var' ? [node.name]
+  : [node.name, ...templateVariableNames(node.then), ...templateVariableNames(node.otherwise)]
+);
+
+// Empty when the template is safe to save
+const templateProblems = (name: TemplateName, text: string): string[] => {
+  const problems: string[] = [];
+  // Only a {{ that opens no tag is a typo; a lone }} is literal text, such as the end of nested JSON
+  const stray = text.replace(TEMPLATE_TAG, ' ').match(/\{\{[^\n]{0,30}/);
+  if (stray) problems.push(`Malformed placeholder near "${stray[0].trim()}"`);
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(text);
+  } catch (error) {
+    return [...problems, errorMessage(error)];
+  }
+  const known = Object.keys(TEMPLATE_VARIABLES[name]);
+  const unknown = [...new Set(templateVariableNames(nodes))].filter(v => !known.includes(v));
+  if (unknown.length) problems.push(`Unknown ${unknown.length > 1 ? 'variables' : 'variable'}: ${unknown.map(v => `{{${v}}}`).join(', ')}`);
+  if (!text.trim()) problems.push('The template is empty');
+  return problems;
 };
 
-// --- Components ---
+const EMPTY_TEMPLATE_STORE: PromptTemplateStore = { versions: [], active: {} };
 
-const ProcessingVisualizer: FC<{ status: string }> = ({ status }) => {
-  return (
-    <div className="processing-vis-container">
-      <div className="vis-blob vis-blob-1"></div>
-      <div className="vis-blob vis-blob-2"></div>
-      <div className="vis-blob vis-blob-3"></div>
-      <div className="vis-glass-overlay"></div>
-      <div className="vis-content">
-        <Icons.Council />
-        <h3 className="vis-text">{status.replace(/_/g, ' ')}</h3>
-        <div className="vis-loading-dots">
-            <span>.</span><span>.</span><span>.</span>
-        </div>
-      </div>
-    </div>
-  )
+const loadPromptTemplates = (): PromptTemplateStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem('prompt_templates') || 'null');
+    return stored && Array.isArray(stored.versions) ? { versions: stored.versions, active: stored.active || {} } : EMPTY_TEMPLATE_STORE;
+  } catch {
+    return EMPTY_TEMPLATE_STORE;
+  }
+};
+
+const savePromptTemplates = (store: PromptTemplateStore) => localStorage.setItem('prompt_templates', JSON.stringify(store));
+
+// Newest first
+const templateVersions = (store: PromptTemplateStore, name: TemplateName) =>
+  store.versions.filter(v => v.template === name).sort((a, b) => b.version - a.version);
+
+// Version 0 is the built-in default
+const templateText = (store: PromptTemplateStore, name: TemplateName, version: number) =>
+  (version && store.versions.find(v => v.template === name && v.version === version)?.text) || DEFAULT_PROMPT_TEMPLATES[name];
+
+const activeTemplate = (store: PromptTemplateStore, name: TemplateName) => templateText(store, name, store.active[name] || 0);
+
+// What a run records in promptVersions: the built-in version, or custom-N for a saved one
+const templateVersionLabel = (store: PromptTemplateStore, name: TemplateName) =>
+  store.active[name] ? `custom-${store.active[name]}` : PROMPT_VERSIONS[name];
+
+// "Judgment custom-2, Synthesis custom-1", or empty when every prompt was the built-in one
+const describeCustomPrompts = (settings: RunSettings) => TEMPLATE_NAMES
+  .filter(name => settings.promptVersions[name]?.startsWith('custom-'))
+  .map(name => `${TEMPLATE_LABELS[name]} ${settings.promptVersions[name]}`)
+  .join(', ');
+
+interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
 }
 
-const StatusStep: FC<{ 
-  label: string; 
-  active: boolean; 
-  done: boolean; 
-  icon: React.ReactNode 
-}> = ({ label, active, done, icon }) => (
-  <div className={`status-item ${active ? 'active' : ''} ${done ? 'done' : ''}`}>
-    <div className="status-icon">
-      {done ? <Icons.Check /> : icon}
-    </div>
-    <div className="status-content">
-      <h4>{label}</h4>
-    </div>
-  </div>
-);
+// Line diff from the longest common subsequence; templates are short enough for the quadratic table
+const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+};
 
-const ProgressBar: FC<{ progress: number }> = ({ progress }) => (
-  <div className="progress-container">
-    <div className="progress-bar-bg">
-      <div className="progress-bar-fill" style={{ width: `${progress}%` }}></div>
-    </div>
-    <span className="progress-text">{progress.toFixed(0)}% PROCESSED</span>
-  </div>
-);
+// --- Prompt Engine ---
 
-const CustomSelect: FC<{
-  value: string;
-  options: string[];
-  onChange: (value: string) => void;
-  disabled: boolean;
-}> = ({ value, options, onChange, disabled }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const containerRef = useRef<HTMLDivElement>(null);
+const PromptEngine = {
+  research: (template: string, url: string) => renderTemplate<'research'>(template, { url }),
+
+ personaGeneration: (template: string, brand: BrandProfile, count: number, market: Market, existing: Persona[] = []) => renderTemplate<'personaGeneration'>(template, {
+  ...brandVariables(brand),
+  count: String(count),
+  country: market.name,
+  'market.region': market.region,
+  'market.language': market.language,
+  'market.culturalNotes': market.culturalNotes || '',
+  existingMembers: existing.map(p => `- ${p.name}, ${p.age}, ${p.occupation}`).join('\n')
+}),
+
+briefParsing: (text?: string) => `
+You are a Strategy Director reading a creative brief${text ? '' : ' (attached as a document)'}.
+${text ? `
+Brief:
+---
+${text}
+---
+` : ''}
+Task: Extract the brief into a structured form. Use the brief's own words wherever possible. Do not invent anything the brief does not say; leave a field empty if it is silent on it.
 
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
-    };
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
+Include these fields in JSON output:
 
-  return (
-    <div className={`custom-select-container ${disabled ? 'disabled' : ''}`} ref={containerRef}>
-      <div 
-        className="custom-select-trigger text-input" 
-        onClick={() => !disabled && setIsOpen(!isOpen)}
-      >
-        <span>{value}</span>
-        <Icons.ChevronDown />
-      </div>
-      {isOpen && (
-        <div className="custom-select-options">
-          {options.map(option => (
-            <div 
-              key={option} 
-              className={`custom-option ${option === value ? 'selected' : ''}`}
-              onClick={() => {
-                onChange(option);
-                setIsOpen(false);
-              }}
-            >
-              {option}
-            </div>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
+{
+  "objectives": ["what the campaign must achieve"],
+  "keyMessage": "the single message the audience should take away",
+  "mandatories": ["elements every asset must include, e.g. logo, legal line, product shot, URL, tagline"],
+  "target": "who the campaign is for",
+  "tone": ["intended tone words"]
+}
+`,
 
-const MediaLightbox: FC<{ asset: Asset; onClose: () => void }> = ({ asset, onClose }) => {
-  useEffect(() => {
-    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
-    window.addEventListener('keydown', handleEsc);
-    return () => window.removeEventListener('keydown', handleEsc);
-  }, [onClose]);
+briefFit: (brief: CreativeBrief, brand: BrandProfile, assetName: string) => `
+You are an impartial creative reviewer checking one asset from ${brand.name} ("${assetName}") against its creative brief. You are not a consumer; judge only what is actually in the asset.
 
-  return (
-    <div className="lightbox-overlay" onClick={onClose}>
-      <button className="lightbox-close" onClick={onClose}>×</button>
-      <div className="lightbox-content" onClick={e => e.stopPropagation()}>
-         {asset.mimeType.startsWith('video') ? (
-           <video src={asset.previewUrl} controls autoPlay className="lightbox-media" />
-         ) : (
-           <img src={asset.previewUrl} className="lightbox-media" alt="Full view" />
-         )}
-      </div>
-    </div>
-  );
-};
+Creative brief:
+- Objectives: ${brief.objectives.join('; ')}
+- Key message: ${brief.keyMessage}
+- Mandatories: ${brief.mandatories.join('; ') || 'none listed'}
+- Target: ${brief.target}
+- Intended tone: ${(brief.tone.length ? brief.tone : brand.tone).join(', ')}
 
-const AnalyticsDashboard: FC<{ judgments: Judgment[] }> = ({ judgments }) => {
-  const analytics = useMemo(() => {
-    if (!judgments.length) return null;
+Task:
+1. Message takeaway: in one sentence, what would a viewer take away from this asset? Score how closely that matches the key message (0 = unrelated, 100 = exactly the key message).
+2. Mandatories: for every mandatory listed, say whether it is present, with a short note on where it appears or what is missing.
+3. Tone: score how well the asset's tone matches the intended tone (0-100) and explain why in one or two sentences.
 
-    const scores = judgments.map(j => j.score);
-    const avgScore = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
-    
-    const intensities = judgments.map(j => j.emotionalIntensity || 0);
-    const avgIntensity = (intensities.reduce((a, b) => a + b, 0) / intensities.length).toFixed(1);
+Include these fields in JSON output:
 
-    const shares = judgments.map(j => j.shareLikelihood || 0);
-    const avgShare = Math.round(shares.reduce((a, b) => a + b, 0) / shares.length);
+{
+  "takeaway": "one sentence",
+  "messageMatch": integer 0-100,
+  "mandatories": [{"item": "the mandatory as written in the brief", "present": true, "note": "short note"}],
+  "toneMatch": integer 0-100,
+  "toneNotes": "1-2 sentences"
+}
+`,
 
-    // Emotions
-    const emotionCounts: Record<string, number> = {};
-    judgments.forEach(j => {
-      j.emotionalTags?.forEach(tag => {
-        const t = tag.toLowerCase().trim();
-        emotionCounts[t] = (emotionCounts[t] || 0) + 1;
-      });
-    });
-    
-    const sortedEmotions = Object.entries(emotionCounts)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 6); // Top 6
+judgment: (template: string, persona: Persona, brand: BrandProfile, asset: { name: string; position: number; total: number }, language?: string) => renderTemplate<'judgment'>(template, {
+  ...brandVariables(brand),
+  'persona.name': persona.name,
+  'persona.age': String(persona.age),
+  'persona.occupation': persona.occupation,
+  'persona.bio': persona.bio,
+  'persona.painPoints': persona.painPoints.join(', '),
+  'persona.location': persona.location || '',
+  'asset.name': asset.name,
+  'asset.position': String(asset.position),
+  'asset.total': String(asset.total),
+  language: language || ''
+}),
+
+comparison: (persona: Persona, brand: BrandProfile, variants: { label: string; assetNames: string[] }[]) => `
+Roleplay instructions:
+You are ${persona.name}.
+- Age: ${persona.age}
+- Occupation: ${persona.occupation}
+- Bio: "${persona.bio}"
+- Emotional Drivers / Frustrations: ${persona.painPoints.join(', ')}
 
-    const maxEmotionCount = sortedEmotions.length > 0 ? sortedEmotions[0][1] : 1;
+Context: ${brand.name} is deciding between ${variants.length} versions of the same ad. You are shown every version, each introduced by its label:
+${variants.map(v => `- Variant ${v.label}: ${v.assetNames.join(', ')}`).join('\n')}
 
-    // Score Circle Calculation
-    // circumference = 2 * pi * r. Let r = 40 (viewbox is 100x100 approx)
-    const radius = 40;
-    const circumference = 2 * Math.PI * radius;
-    const offset = circumference - (avgScore / 100) * circumference;
+Task: You must pick exactly one favourite. No ties, no "it depends". Answer as yourself, in first person, with no marketing jargon.
 
-    return { avgScore, avgIntensity, avgShare, sortedEmotions, total: judgments.length, circumference, offset, maxEmotionCount };
-  }, [judgments]);
+Include these fields in JSON output:
 
-  if (!analytics) return null;
+{
+  "preferredVariant": "${variants.map(v => v.label).join('" | "')}",
+  "margin": integer 1-10,          // 1 = basically a coin flip, 10 = not even close
+  "reason": "1-2 sentences on why this one won you over",
+  "emotionalTags": ["emotions", "that", "decided", "it"]
+}
+`,
 
-  return (
-    <div className="analytics-dashboard">
-      <div className="analytics-grid">
-        {/* Score Gauge */}
-        <div className="analytics-card score-gauge-card">
-            <h3 className="analytics-title">Council Score</h3>
-            <div className="gauge-container">
-                <svg viewBox="0 0 100 100" className="score-svg">
-                    <circle cx="50" cy="50" r="40" className="score-bg" />
-                    <circle 
-                        cx="50" cy="50" r="40" 
-                        className="score-fill" 
-                        strokeDasharray={analytics.circumference} 
-                        strokeDashoffset={analytics.offset}
-                        transform="rotate(-90 50 50)"
-                    />
-                </svg>
-                <div className="gauge-value">{analytics.avgScore}</div>
-            </div>
-        </div>
+debate: (persona: Persona, brand: BrandProfile, assetName: string, round: number, totalRounds: number, own: DebatePosition, others: DebatePosition[]) => `
+Roleplay instructions:
+You are ${persona.name}.
+- Age: ${persona.age}
+- Occupation: ${persona.occupation}
+- Bio: "${persona.bio}"
+- Emotional Drivers / Frustrations: ${persona.painPoints.join(', ')}
 
-        {/* KPIs */}
-        <div className="analytics-col">
-            <div className="analytics-card kpi-card">
-                <div className="kpi-label">Share Likelihood</div>
-                <div className="kpi-value">{analytics.avgShare}%</div>
-                <div className="kpi-bar-bg">
-                    <div className="kpi-bar-fill" style={{width: `${analytics.avgShare}%`}}></div>
-                </div>
-            </div>
-            <div className="analytics-card kpi-card">
-                <div className="kpi-label">Avg. Intensity</div>
-                <div className="kpi-value">{analytics.avgIntensity}<span style={{fontSize: '0.6em', color:'#666'}}>/10</span></div>
-                 <div className="kpi-bar-bg">
-                    <div className="kpi-bar-fill" style={{width: `${(parseFloat(analytics.avgIntensity) / 10) * 100}%`}}></div>
-                </div>
-            </div>
-        </div>
+Context: You reviewed "${assetName}" from ${brand.name} and currently give it ${own.score}/100.
+- What you said: "${own.quote}"
+- What worked for you: ${own.pros.join('; ')}
+- What did not: ${own.cons.join('; ')}
+${own.lastReply ? `- Last round you told the group: "${own.lastReply}"\n` : ''}
+This is debate round ${round} of ${totalRounds}. The other council members reviewed the same asset. Their names are hidden:
+${JSON.stringify(others, null, 2)}
 
-        {/* Emotions Chart */}
-        <div className="analytics-card emotion-chart-card">
-            <h3 className="analytics-title">Dominant Emotions</h3>
-            <div className="emotion-bars">
-                {analytics.sortedEmotions.map(([tag, count]) => (
-                    <div key={tag} className="emotion-row">
-                        <span className="emotion-label">{tag}</span>
-                        <div className="emotion-track">
-                             <div 
-                                className="emotion-fill" 
-                                style={{width: `${(count / analytics.maxEmotionCount) * 100}%`}}
-                             ></div>
-                        </div>
-                        <span className="emotion-count">{count}</span>
-                    </div>
-                ))}
-            </div>
-        </div>
-      </div>
-    </div>
-  );
+Task: Talk back to the group in 2-4 sentences, in first person. Push back where you disagree and concede where someone has a point. Then give your score now. Keep it unless something they said genuinely changed how you feel; never move just to agree with the majority.
+
+Include these fields in JSON output:
+
+{
+  "reply": "what you say to the group",
+  "score": integer 0-100,
+  "reason": "one sentence on why your score moved or held"
 }
+`,
 
-const AgentNeuralFeed: FC<{ logs: string[], expanded: boolean, onToggle: () => void }> = ({ logs, expanded, onToggle }) => {
-  const logEndRef = useRef<HTMLDivElement>(null);
+interview: (persona: Persona, brand: BrandProfile, assetName: string, judgment: Judgment, history: InterviewMessage[], question: string) => `
+Roleplay instructions:
+You are ${persona.name}.
+- Age: ${persona.age}
+- Occupation: ${persona.occupation}
+- Bio: "${persona.bio}"
+- Emotional Drivers / Frustrations: ${persona.painPoints.join(', ')}
 
-  useEffect(() => {
-    if (expanded && logEndRef.current) {
-      logEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [logs, expanded]);
+Context: Earlier you saw this creative asset from ${brand.name} ("${assetName}") and gave this reaction:
+${JSON.stringify(judgment, null, 2)}
 
-  return (
-    <div className={`neural-feed ${expanded ? 'expanded' : ''}`}>
-      <div className="neural-header" onClick={onToggle}>
-        <div className="neural-title">
-            <Icons.Terminal />
-            <span>Processing Feed</span>
-        </div>
-        <div style={{opacity: 0.5}} className="neural-toggle">
-            {expanded ? <Icons.ChevronDown /> : <Icons.ChevronUp />}
-        </div>
-      </div>
-      {expanded && (
-        <div className="neural-logs">
-          {logs.length === 0 ? (
-            <div className="log-item" style={{opacity: 0.3}}>System Ready.</div>
-          ) : (
-            logs.map((log, i) => (
-              <div key={i} className="log-item">
-                <span className="log-arrow">&gt;</span> {log}
-              </div>
-            ))
-          )}
-          <div ref={logEndRef} />
-        </div>
-      )}
-    </div>
-  );
-}
+A researcher is now interviewing you about it.
+${history.length ? `
+Conversation so far:
+${history.map(m => `${m.role === 'user' ? 'Researcher' : persona.name}: ${m.text}`).join('\n')}
+` : ''}
+Researcher: ${question}
 
-const BrandSection: FC<{ brand: BrandProfile }> = ({ brand }) => (
-  <div className="brand-card">
-    <h2 className="section-title"><Icons.Research /> Brand Profile</h2>
-    <div className="brand-details-grid">
-      <div className="detail-item">
-        <label>Name</label>
-        <p>{brand.name}</p>
-      </div>
-      <div className="detail-item">
-        <label>Category</label>
-        <p>{brand.category}</p>
-      </div>
-      <div className="detail-item full-width">
-        <label>Unique Selling Propositions</label>
-        <div className="tone-tags">
-          {brand.uniqueSellingPropositions?.slice(0, 3).map((usp, i) => (
-             <span key={i} className="tone-tag usp-tag">{usp}</span>
-          )) || <span className="tone-tag">N/A</span>}
-        </div>
-      </div>
-      <div className="detail-item">
-        <label>Tone</label>
-        <div className="tone-tags">
-          {brand.tone.map((t, i) => <span key={i} className="tone-tag">{t}</span>)}
-        </div>
-      </div>
-      <div className="detail-item">
-        <label>Competitors</label>
-        <p>{brand.competitors?.join(', ') || 'N/A'}</p>
-      </div>
-      <div className="detail-item full-width">
-        <label>Target Audience</label>
-        <p>{brand.targetAudience}</p>
-      </div>
-    </div>
-  </div>
-);
+Task: Answer as ${persona.name}, in first person, in 1-4 sentences. Stay consistent with your reaction above and with what you can actually see or hear in the asset. If the question asks about something you did not notice, say so. No marketing jargon.
 
-const PersonaCard: FC<{ persona: Persona }> = ({ persona }) => (
-  <div className="persona-card">
-    <div className="persona-header">
-      <div className="persona-avatar">
-        {persona.name.charAt(0)}
-      </div>
-      <div className="persona-info">
-        <h3>{persona.name}</h3>
-        <span>{persona.occupation}</span>
-      </div>
-    </div>
-    <p className="persona-bio">{persona.bio}</p>
-    <div className="tone-tags">
-        {persona.painPoints.slice(0, 2).map((pp, i) => (
-            <span key={i} className="tone-tag pain-point">{pp}</span>
-        ))}
-    </div>
-  </div>
-);
+Return only your reply as plain text, without your name or quotation marks.
+`,
 
-const Scorecard: FC<{ judgment: Judgment; persona: Persona }> = ({ judgment, persona }) => {
-  const scoreClass = judgment.score >= 80 ? 'high' : judgment.score >= 50 ? 'med' : 'low';
-  
-  return (
-    <div className="scorecard">
-      <div className="score-visual">
-        <div className={`score-circle ${scoreClass}`}>
-          {judgment.score}
-        </div>
-        <span className="score-label">Score</span>
-      </div>
-      <div className="score-content">
-        <div className="score-header">
-          <h4>{persona.name}</h4>
-          <span style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: '1px' }}>{persona.occupation}</span>
-        </div>
-        <div className="score-quote">"{judgment.quote}"</div>
-        <div className="pros-cons">
-          <div className="pc-list pros">
-            <h5>Vibes / Strengths</h5>
-            <ul>
-              {judgment.pros.map((p, i) => <li key={i}>{p}</li>)}
-            </ul>
-          </div>
-          <div className="pc-list cons">
-            <h5>Frustrations / Weaknesses</h5>
-            <ul>
-              {judgment.cons.map((c, i) => <li key={i}>{c}</li>)}
-            </ul>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+synthesis: (template: string, brand: BrandProfile, assets: SynthesisAssetInput[], stats: CouncilStats, comparison?: ComparisonSynthesisInput, debate?: DebateSynthesisInput, markets?: MarketStats[]) => renderTemplate<'synthesis'>(template, {
+  ...brandVariables(brand),
+  multipleAssets: assets.length > 1 ? 'yes' : '',
+  assetCount: String(assets.length),
+  judgmentsJson: JSON.stringify(assets, null, 2),
+  statsJson: JSON.stringify(stats, null, 2),
+  comparisonJson: comparison ? JSON.stringify(comparison, null, 2) : '',
+  debateJson: debate ? JSON.stringify(debate, null, 2) : '',
+  debateRounds: debate ? String(debate.rounds) : '',
+  marketsJson: markets ? JSON.stringify(markets, null, 2) : '',
+  samplesPerPersona: stats.sampling ? String(stats.sampling.samplesPerPersona) : ''
+})
 };
 
-// --- PDF Print Template (Editorial Design) ---
+// Bump a prompt's version whenever its wording or output contract changes; every run records them
+const PROMPT_VERSIONS: Record<PromptName, string> = {
+  research: '1',
+  personaGeneration: '4',
+  briefParsing: '1',
+  briefFit: '1',
+  judgment: '4',
+  comparison: '1',
+  synthesis: '7',
+  debate: '1',
+  interview: '1'
+};
 
-const PdfReportTemplate: FC<{ state: AppState, videoSnapshots: Record<string, string> }> = ({ state, videoSnapshots }) => {
-    if (!state.brandProfile) return null;
-    
-    return (
-        <div id="pdf-report-content" className="pdf-template">
-            {/* Header */}
-            <header className="pdf-header">
-                <div className="pdf-header-top">
-                    <div className="pdf-brand-logo">CREATIVE COUNCIL</div>
-                    <div className="pdf-report-meta">
-                        <span>CONFIDENTIAL</span> • <span>{new Date().toLocaleDateString()}</span>
-                    </div>
-                </div>
-                <div className="pdf-divider"></div>
-                <div className="pdf-title-section">
-                    <div className="pdf-subtitle">Strategic Analysis</div>
-                    <h1 className="pdf-main-title">{state.brandProfile.name}</h1>
-                    <div className="pdf-project-url">{state.url}</div>
-                </div>
-            </header>
-
-            {/* Assets Gallery */}
-            <section className="pdf-section">
-                <h3 className="pdf-section-label">Campaign Assets</h3>
-                <div className="pdf-assets-grid">
-                    {state.assets.map((asset) => (
-                        <div key={asset.id} className="pdf-asset-item">
-                            <div className="pdf-asset-frame">
-                                {asset.mimeType.startsWith('video') ? (
-                                    videoSnapshots[asset.id] ? (
-                                        <img src={videoSnapshots[asset.id]} className="pdf-asset-img" alt="Video Frame" />
-                                    ) : (
-                                        <div className="pdf-asset-placeholder">Video Asset</div>
-                                    )
-                                ) : (
-                                    <img src={asset.previewUrl} className="pdf-asset-img" alt="Creative Asset" />
-                                )}
-                            </div>
-                            <div className="pdf-asset-label">{asset.file.name}</div>
-                        </div>
-                    ))}
-                </div>
-            </section>
-
-             {/* Brand & Personas Split */}
-            <section className="pdf-section pdf-split-layout">
-                <div className="pdf-col">
-                    <h3 className="pdf-section-label">Brand Profile</h3>
-                    <div className="pdf-data-row">
-                        <span className="pdf-label">Category</span>
-                        <span className="pdf-value">{state.brandProfile.category}</span>
-                    </div>
-                     <div className="pdf-data-row">
-                        <span className="pdf-label">Market</span>
-                        <span className="pdf-value">{state.country}</span>
-                    </div>
-                    {/* Brand Colors */}
-                    {state.brandProfile.brandColors && state.brandProfile.brandColors.length > 0 && (
-                        <div className="pdf-data-block">
-                            <span className="pdf-label">Brand Palette</span>
-                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '6px' }}>
-                                {state.brandProfile.brandColors.map((color, i) => (
-                                    <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '6px', border: '1px solid #eee', padding: '4px 8px', borderRadius: '4px', backgroundColor: '#fff' }}>
-                                        <div style={{ width: '16px', height: '16px', borderRadius: '50%', backgroundColor: color, border: '1px solid rgba(0,0,0,0.1)', flexShrink: 0 }}></div>
-                                        <span style={{ fontSize: '0.7rem', fontFamily: 'monospace', color: '#444' }}>{color}</span>
-                                    </div>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-                    <div className="pdf-data-block">
-                        <span className="pdf-label">Target Audience</span>
-                        <p className="pdf-text">{state.brandProfile.targetAudience}</p>
-                    </div>
-                     <div className="pdf-data-block">
-                        <span className="pdf-label">Tone</span>
-                        <p className="pdf-text">{state.brandProfile.tone.join(', ')}</p>
-                    </div>
-                </div>
-                
-                <div className="pdf-col">
-                    <h3 className="pdf-section-label">The Council</h3>
-                    <div className="pdf-council-list">
-                         {state.personas.map(p => (
-                            <div key={p.id} className="pdf-council-member">
-                                <div className="pdf-member-name">{p.name}</div>
-                                <div className="pdf-member-role">{p.age} • {p.occupation}</div>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            </section>
-            
-             {/* Analytics Snapshot - Injected into PDF */}
-            <section className="pdf-section break-before">
-                <h3 className="pdf-section-label">Quantitative Snapshot</h3>
-                <AnalyticsDashboard judgments={state.judgments} />
-            </section>
-
-             {/* Executive Summary */}
-             <section className="pdf-section">
-                 <h3 className="pdf-section-label">Executive Narrative</h3>
-                 <div className="pdf-markdown-body">
-                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{state.finalReport}</ReactMarkdown>
-                 </div>
-             </section>
-
-             {/* Scorecards */}
-             <section className="pdf-section break-before">
-                 <h3 className="pdf-section-label">Detailed Verdicts</h3>
-                 <div className="pdf-scorecards-container">
-                    {state.judgments.map((j, i) => (
-                        <div key={i} className="pdf-scorecard">
-                            <div className="pdf-score-col">
-                                <div className="pdf-score-number">{j.score}</div>
-                                <div className="pdf-score-judge">{state.personas[i].name}</div>
-                                <div className="pdf-score-role">{state.personas[i].occupation}</div>
-                            </div>
-                            <div className="pdf-judgment-col">
-                                <div className="pdf-quote">"{j.quote}"</div>
-                                <div className="pdf-verdict-box">
-                                    <strong>Verdict:</strong> {j.verdict}
-                                </div>
-                            </div>
-                        </div>
-                    ))}
-                 </div>
-             </section>
-        </div>
-    )
-}
 
-const SettingsModal: FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  apiKey: string;
-  onSave: (key: string) => void;
-}> = ({ isOpen, onClose, apiKey, onSave }) => {
-  const [key, setKey] = useState(apiKey);
+// --- LLM Providers ---
+// Every pipeline stage talks to the model through this interface, so stages never
+// depend on a specific SDK. Schemas are written once in Gemini's OpenAPI subset and
+// translated by each adapter.
 
-  useEffect(() => {
-    setKey(apiKey);
-  }, [apiKey]);
+type PipelineStage = 'research' | 'personas' | 'judging' | 'debate' | 'synthesis';
 
-  if (!isOpen) return null;
+const PIPELINE_STAGES: PipelineStage[] = ['research', 'personas', 'judging', 'debate', 'synthesis'];
+
+const STAGE_STATUS: Record<PipelineStage, AppState['status']> = {
+  research: 'researching',
+  personas: 'creating_personas',
+  judging: 'judging',
+  debate: 'debating',
+  synthesis: 'synthesizing'
+};
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  research: 'Brand Intelligence',
+  personas: 'Persona Assembly',
+  judging: 'Council Deliberation',
+  debate: 'Council Debate',
+  synthesis: 'Strategic Synthesis'
+};
+
+// What the stages have produced so far; passed forward when the pipeline resumes
+interface PipelineContext {
+  brandProfile: BrandProfile | null;
+  personas: Persona[];
+  judgments: Judgment[];
+  comparisons: Comparison[];
+  failedJudgments: FailedJudgment[];
+  debate: DebateTurn[];
+  brief: CreativeBrief | null;
+  briefFits: BriefFit[];
+}
+
+interface ContentPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+interface GenerateRequest {
+  stage: PipelineStage | 'interview'; // Interviews run after the pipeline, on demand
+  parts: ContentPart[];
+  schema?: Schema; // When set, the response text is JSON matching this schema
+  useSearch?: boolean; // Grounding with web search, where the provider supports it
+  itemCount?: number; // Expected length of a top-level array response (used by the mock)
+  personaId?: string; // Attributes the call's token usage to a persona
+  sample?: number; // Repeat index when the same call is sampled several times; varies the mock's seed
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface GenerateResult {
+  text: string;
+  usage?: TokenUsage; // Missing when the provider doesn't report it
+}
+
+interface UsageRecord extends TokenUsage {
+  stage: GenerateRequest['stage'];
+  personaId?: string;
+  model: string;
+  cost: number; // USD, priced when the call was made
+}
+
+interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-Compatible (Ollama, llama.cpp...)',
+  mock: 'Mock (Offline Demo)'
+};
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  geminiApiKey: '',
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openaiApiKey: '',
+  openaiModel: 'llama3.2-vision',
+  prices: {
+    [MODEL_NAME]: { input: 2, output: 12 },
+    'llama3.2-vision': { input: 0, output: 0 },
+    mock: { input: 0, output: 0 }
+  },
+  generation: { research: { model: '' }, personas: { model: '' }, judging: { model: '' }, synthesis: { model: '' } },
+  concurrency: { maxParallel: 4, requestsPerMinute: 60 }
+};
+
+const GENERATION_STAGES: GenerationStage[] = ['research', 'personas', 'judging', 'synthesis'];
+
+const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  research: 'Research',
+  personas: 'Personas',
+  judging: 'Judging, Debate & Interviews',
+  synthesis: 'Synthesis'
+};
+
+const generationStageOf = (stage: GenerateRequest['stage']): GenerationStage =>
+  stage === 'debate' || stage === 'interview' ? 'judging' : stage;
+
+// The provider's default model, used by any stage without an override
+const activeModel = (settings: ProviderSettings) =>
+  settings.provider === 'gemini' ? MODEL_NAME : settings.provider === 'openai' ? settings.openaiModel : 'mock';
+
+const stageModel = (settings: ProviderSettings, stage: GenerateRequest['stage']) =>
+  settings.provider === 'mock' ? 'mock' : settings.generation[generationStageOf(stage)]?.model.trim() || activeModel(settings);
+
+const stageGeneration = (settings: ProviderSettings, stage: GenerateRequest['stage']): StageGeneration =>
+  ({ ...settings.generation[generationStageOf(stage)], model: stageModel(settings, stage) });
+
+const loadProviderSettings = (): ProviderSettings => {
+  let stored: Partial<ProviderSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem('provider_settings') || '{}');
+  } catch {
+    // Corrupt settings fall back to defaults
+  }
+  return {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    geminiApiKey: localStorage.getItem('gemini_api_key') || '',
+    ...stored,
+    generation: { ...DEFAULT_PROVIDER_SETTINGS.generation, ...stored.generation },
+    concurrency: { ...DEFAULT_PROVIDER_SETTINGS.concurrency, ...stored.concurrency }
+  };
+};
+
+const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem('provider_settings', JSON.stringify(settings));
+  localStorage.setItem('gemini_api_key', settings.geminiApiKey);
+};
+
+const isProviderConfigured = (settings: ProviderSettings) => {
+  switch (settings.provider) {
+    case 'gemini': return !!settings.geminiApiKey;
+    case 'openai': return !!settings.openaiBaseUrl && !!settings.openaiModel;
+    case 'mock': return true;
+  }
+};
+
+// Local models often wrap JSON in markdown fences even when asked not to
+const stripJsonFences = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const createGeminiProvider = (apiKey: string, generationFor: (stage: GenerateRequest['stage']) => StageGeneration): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    label: PROVIDER_LABELS.gemini,
+    generate: async ({ stage, parts, schema, useSearch }) => {
+      const { model, temperature, topP, thinkingBudget } = generationFor(stage);
+      const resp = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          ...(temperature !== undefined ? { temperature } : {}),
+          ...(topP !== undefined ? { topP } : {}),
+          ...(thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget } } : {}),
+          ...(useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+          ...(schema ? { responseMimeType: 'application/json', responseSchema: schema } : {})
+        }
+      });
+      const usage = resp.usageMetadata;
+      return {
+        text: resp.text || '',
+        // Thinking tokens are billed as output
+        usage: usage && {
+          inputTokens: usage.promptTokenCount || 0,
+          outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+        }
+      };
+    }
+  };
+};
+
+// Gemini's schema uses upper-case type names; JSON Schema wants them lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = { type: String(schema.type).toLowerCase() };
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    out.required = schema.required || [];
+  }
+  return out;
+};
+
+// Thinking budgets have no chat-completions equivalent and are not sent
+const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string, generationFor: (stage: GenerateRequest['stage']) => StageGeneration): LLMProvider => ({
+  id: 'openai',
+  label: PROVIDER_LABELS.openai,
+  generate: async ({ stage, parts, schema }) => {
+    const { model, temperature, topP } = generationFor(stage);
+    const content = parts.map(part => {
+      if (part.inlineData) {
+        // Chat-completions endpoints accept images only; anything else would be judged unseen
+        if (!part.inlineData.mimeType.startsWith('image')) {
+          throw new Error(`This provider reads images only and cannot be sent ${part.inlineData.mimeType}. Send videos as keyframes, or switch to Gemini.`);
+        }
+        return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+      }
+      return { type: 'text', text: part.text || '' };
+    });
+    if (schema) {
+      content.push({ type: 'text', text: `Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}` });
+    }
+
+    const resp = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(topP !== undefined ? { top_p: topP } : {}),
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } } } : {})
+      })
+    });
+    if (!resp.ok) {
+      throw new Error(`${PROVIDER_LABELS.openai} request failed (${resp.status}): ${await resp.text()}`);
+    }
+    const data = await resp.json();
+    const text: string = data.choices?.[0]?.message?.content || '';
+    return {
+      text: schema ? stripJsonFences(text) : text,
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+    };
+  }
+});
+
+// --- Mock Provider ---
+// Produces deterministic, schema-valid fixtures so the whole pipeline runs offline.
+// The same prompt always yields the same response.
+
+const MockFixtures = {
+  names: ['Linh Tran', 'Minh Nguyen', 'Sarah Cole', 'Kenji Sato', 'Ana Souza', 'Priya Rao', 'Tom Becker', 'Mai Pham', 'Jae-won Park', 'Chloe Martin'],
+  genders: ['Female', 'Male', 'Non-binary'],
+  locations: ['Ho Chi Minh City', 'Da Nang', 'Austin, TX', 'Leeds', 'Osaka', 'a village outside Hue'],
+  households: ['Lives alone', 'Married, two young kids', 'Shares a flat with friends', 'Lives with parents', 'Empty nester'],
+  occupations: ['Graphic Designer', 'Nurse', 'University Student', 'Small Business Owner', 'Software Engineer', 'Retired Teacher', 'Delivery Rider', 'Marketing Coordinator'],
+  emotions: ['nostalgic', 'amused', 'curious', 'skeptical', 'warm', 'bored', 'inspired', 'irritated'],
+  pros: ['The colours feel warm and inviting', 'The music made me smile', 'It feels honest, not salesy', 'I recognised my own neighbourhood', 'The first shot grabbed me'],
+  cons: ['The voiceover sounds a bit fake', 'Too much text on screen', 'The ending drags', 'I could not tell what the brand was at first', 'Feels like every other ad'],
+  quotes: ['Honestly, this one stopped my scroll.', 'It is pretty, but I have seen this a hundred times.', 'This feels like it was made for someone like me.', 'I laughed, then I wanted to know more.', 'Nice vibe, forgettable message.'],
+  phrases: ['Feels genuine and grounded in everyday life', 'Playful with a premium edge', 'Urban professionals aged 25-40 who value convenience', 'A reliable choice that fits into busy routines', 'Bold visuals with a friendly tone'],
+  tones: ['Playful', 'Premium', 'Warm', 'Confident', 'Authentic'],
+  competitors: ['Northwind', 'Contoso', 'Fabrikam', 'Tailspin'],
+  colors: ['#FACC15', '#111111', '#FFFFFF', '#1D4ED8', '#EF4444'],
+  trust: ['trustworthy', 'authentic', 'premium', 'playful', 'cheap']
+};
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG, good enough for fixtures
+const createSeededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const mockValue = (schema: Schema, key: string, rand: () => number, counter: { n: number }, itemCount?: number): unknown => {
+  const pick = <T,>(list: T[]) => list[Math.floor(rand() * list.length)];
+  const between = (min: number, max: number) => min + Math.floor(rand() * (max - min + 1));
+  const k = key.toLowerCase();
+
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, prop]) => [name, mockValue(prop, name, rand, counter)])
+      );
+    case Type.ARRAY: {
+      const length = itemCount ?? between(2, 4);
+      return Array.from({ length }, () => mockValue(schema.items || { type: Type.STRING }, key, rand, counter));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (k.includes('intensity') || k.includes('margin')) return between(3, 9);
+      if (k === 'age') return between(19, 64);
+      if (k.includes('seconds')) return between(1, 8);
+      if (k.includes('score')) return between(35, 92);
+      return between(10, 90);
+    case Type.BOOLEAN:
+      return rand() > 0.5;
+    default:
+      if (schema.enum?.length) return pick(schema.enum);
+      if (k === 'id') return `mock-${++counter.n}`;
+      if (k === 'name') return pick(MockFixtures.names);
+      if (k === 'time') return `00:${String(between(0, 29)).padStart(2, '0')}`;
+      if (k.includes('occupation')) return pick(MockFixtures.occupations);
+      if (k === 'gender') return pick(MockFixtures.genders);
+      if (k === 'location') return pick(MockFixtures.locations);
+      if (k === 'household') return pick(MockFixtures.households);
+      if (k.includes('emotion')) return pick(MockFixtures.emotions);
+      if (k.startsWith('pros')) return pick(MockFixtures.pros);
+      if (k.startsWith('cons') || k.includes('pain')) return pick(MockFixtures.cons);
+      if (k.includes('quote') || k.includes('reaction') || k.includes('verdict') || k.includes('reason') || k === 'reply') return pick(MockFixtures.quotes);
+      if (k === 'tone') return pick(MockFixtures.tones);
+      if (k.includes('competitor')) return pick(MockFixtures.competitors);
+      if (k.includes('color')) return pick(MockFixtures.colors);
+      if (k.includes('trust')) return pick(MockFixtures.trust);
+      return pick(MockFixtures.phrases);
+  }
+};
+
+const MOCK_SYNTHESIS = `## Quantitative Snapshot
+- This narrative was produced by the offline mock provider. The statistics tables above are computed from the fixture judgments.
+
+## Dominant Emotions and Intensity
+- The council's reactions clustered around curiosity and warmth, with a pocket of skepticism.
+
+## Common Positives (Aggregated)
+- Warm colour palette
+- Music that lifted the mood
+
+## Common Negatives (Aggregated)
+- Voiceover felt scripted
+- Too much on-screen text
+
+## One-line Summary
+- A warm, likeable piece that some personas found a little generic.
+`;
+
+const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  label: PROVIDER_LABELS.mock,
+  generate: async ({ stage, parts, schema, itemCount, sample }) => {
+    const seed = hashString(stage + (sample ? `#${sample}` : '') + parts.map(p => p.text || p.inlineData?.data.slice(0, 256) || '').join('|'));
+    const rand = createSeededRandom(seed);
+    // Simulated latency keeps progress and logs readable in demos
+    await new Promise(resolve => setTimeout(resolve, 200 + Math.floor(rand() * 400)));
+    const text = stage === 'interview'
+      ? `${MockFixtures.quotes[Math.floor(rand() * MockFixtures.quotes.length)]} ${MockFixtures.cons[Math.floor(rand() * MockFixtures.cons.length)]}.`
+      : schema ? JSON.stringify(mockValue(schema, '', rand, { n: 0 }, itemCount)) : MOCK_SYNTHESIS;
+    // Usage is approximated so cost accounting can be exercised offline
+    return { text, usage: { inputTokens: parts.reduce((total, p) => total + partTokens(p), 0), outputTokens: textTokens(text) } };
+  }
+});
+
+const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings.geminiApiKey, stage => stageGeneration(settings, stage));
+    case 'openai': return createOpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey, stage => stageGeneration(settings, stage));
+    case 'mock': return createMockProvider();
+  }
+};
+
+// --- Usage & Cost ---
+// Providers report tokens per call; each call is priced from the price table when it is made.
+// The pre-run estimate uses rough per-call sizes and is only meant to catch order-of-magnitude surprises.
+
+const IMAGE_TOKENS = 1100;
+const VIDEO_TOKENS_PER_SECOND = 300;
+const DOCUMENT_TOKENS = 2000; // A few pages of PDF brief
+const FALLBACK_VIDEO_SECONDS = 30; // Until the metadata has been read
+
+const textTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Inline media is counted at its typical per-image or per-second rate, not by payload size
+const partTokens = (part: ContentPart) => {
+  if (!part.inlineData) return textTokens(part.text || '');
+  if (part.inlineData.mimeType.startsWith('image')) return IMAGE_TOKENS;
+  if (part.inlineData.mimeType.startsWith('video')) return FALLBACK_VIDEO_SECONDS * VIDEO_TOKENS_PER_SECOND;
+  return DOCUMENT_TOKENS;
+};
+
+const priceFor = (prices: PriceTable, model: string): ModelPrice => prices[model] || { input: 0, output: 0 };
+
+const usageCost = (usage: TokenUsage, price: ModelPrice) =>
+  (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+
+const BUDGET_MODE_LABELS: Record<BudgetMode, string> = { warn: 'Warn when over', abort: 'Stop when over' };
+
+const formatCost = (usd: number) => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+
+interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+}
+
+const totalUsage = (records: UsageRecord[]): UsageTotals => records.reduce(
+  (total, r) => ({
+    calls: total.calls + 1,
+    inputTokens: total.inputTokens + r.inputTokens,
+    outputTokens: total.outputTokens + r.outputTokens,
+    cost: total.cost + r.cost
+  }),
+  { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+);
+
+const usageBy = (records: UsageRecord[], key: (r: UsageRecord) => string | undefined) => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => {
+    const k = key(r);
+    if (k !== undefined) groups.set(k, [...(groups.get(k) || []), r]);
+  });
+  return [...groups.entries()].map(([k, group]) => ({ key: k, ...totalUsage(group) }));
+};
+
+const usageLabel = (stage: UsageRecord['stage']) => stage === 'interview' ? 'Interviews' : STAGE_LABELS[stage];
+
+const assetTokens = (asset: Asset, prep: VideoPreprocessing) => {
+  if (!isVideoAsset(asset)) return IMAGE_TOKENS;
+  const duration = asset.videoInfo?.duration || FALLBACK_VIDEO_SECONDS;
+  if (resolveStrategy(asset, prep) === 'inline') return Math.ceil(duration * VIDEO_TOKENS_PER_SECOND);
+  // Scene detection can't be predicted; assume a cut every few seconds
+  const frames = prep.mode === 'rate' ? rateKeyframes(duration, prep.interval).length : Math.min(MAX_KEYFRAMES, Math.ceil(duration / 3) + 1);
+  return frames * (IMAGE_TOKENS + 10) + 60;
+};
+
+// Mirrors the calls the pipeline makes, stage by stage
+const estimateRunCost = (plan: {
+  assets: Asset[];
+  personaCount: number;
+  markets: number;
+  generatedPersonas: number; // Per market; saved council members cost nothing to create
+  comparison: boolean;
+  debateRounds: number;
+  samples: number; // Judgment calls per persona per asset
+  briefTokens: number; // 0 when there is no brief
+  videoPreprocessing: VideoPreprocessing;
+}, priceOf: (stage: GenerationStage) => ModelPrice): UsageTotals => {
+  const media = plan.assets.map(a => assetTokens(a, plan.videoPreprocessing));
+  const allMedia = media.reduce((a, b) => a + b, 0);
+  const call = (stage: GenerationStage, inputTokens: number, outputTokens: number) => ({ stage, inputTokens, outputTokens });
+  const calls = [
+    call('research', 600, 1200),
+    ...(plan.briefTokens ? [call('research', 400 + plan.briefTokens, 400)] : []),
+    ...(plan.generatedPersonas ? Array.from({ length: plan.markets }, () => personaBatches(plan.generatedPersonas).map((size, i) => call('personas', 800 + 200 * i, 500 * size))).flat() : []),
+    ...Array.from({ length: plan.personaCount * plan.samples }, () => media.map(m => call('judging', 900 + m, 700))).flat(),
+    ...(plan.briefTokens ? media.map(m => call('judging', 700 + m, 400)) : []),
+    ...(plan.comparison ? Array.from({ length: plan.personaCount }, () => call('judging', 900 + allMedia, 300)) : []),
+    ...Array.from({ length: plan.debateRounds * plan.personaCount * plan.assets.length }, () => call('judging', 600 + 150 * plan.personaCount, 250)),
+    call('synthesis', 800 + 350 * plan.personaCount * plan.assets.length, 1500)
+  ];
+  return calls.reduce((total, c) => ({
+    calls: total.calls + 1,
+    inputTokens: total.inputTokens + c.inputTokens,
+    outputTokens: total.outputTokens + c.outputTokens,
+    cost: total.cost + usageCost(c, priceOf(c.stage))
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+};
+
+// --- Retries ---
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Rate limits, overloaded or unreachable servers, and malformed JSON are worth another try;
+// bad requests and auth failures are not
+const isRetryableError = (error: unknown) => {
+  if (error instanceof SyntaxError) return true;
+  const message = errorMessage(error).toLowerCase();
+  return /\b(429|500|502|503|504)\b/.test(message)
+    || ['resource_exhausted', 'unavailable', 'rate limit', 'quota', 'overloaded', 'timeout', 'fetch failed', 'failed to fetch', 'network'].some(k => message.includes(k));
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withRetry = async <T,>(fn: () => Promise<T>, { retries = 3, baseDelayMs = 1000, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > retries || !isRetryableError(error)) throw error;
+      // Exponential backoff with jitter so parallel calls don't retry in lockstep
+      const delayMs = baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * baseDelayMs);
+      onRetry?.(attempt, error, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// Parsing happens inside the retry so a malformed response gets a fresh attempt
+const generateJson = <T,>(provider: LLMProvider, request: GenerateRequest, options?: RetryOptions) =>
+  withRetry(async () => JSON.parse((await provider.generate(request)).text) as T, options);
+
+// --- Request Pool ---
+// Persona tasks take a slot for their whole run, retries included; every request also waits
+// under the per-minute cap. A rate-limit error pauses the whole pool rather than only the
+// call that hit it, so queued work backs off together.
+
+const RATE_LIMIT_PAUSE_MS = 2000;
+const MAX_RATE_LIMIT_PAUSE_MS = 60000;
+
+// Large councils are recruited in batches so each response stays a manageable size
+const PERSONA_BATCH_SIZE = 10;
+
+const personaBatches = (count: number) =>
+  Array.from({ length: Math.ceil(count / PERSONA_BATCH_SIZE) }, (_, i) => Math.min(PERSONA_BATCH_SIZE, count - i * PERSONA_BATCH_SIZE));
+
+const isRateLimitError = (error: unknown) => {
+  const message = errorMessage(error).toLowerCase();
+  return /\b429\b/.test(message) || ['resource_exhausted', 'rate limit', 'quota'].some(k => message.includes(k));
+};
+
+interface RequestPool {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+  throttle: () => Promise<void>;
+  rateLimited: () => number; // Returns the pause it started, in ms
+  succeeded: () => void;
+}
+
+const createRequestPool = ({ maxParallel, requestsPerMinute }: ConcurrencySettings): RequestPool => {
+  const limit = Math.max(1, maxParallel);
+  const waiting: (() => void)[] = [];
+  const starts: number[] = []; // Request start times within the last minute
+  let active = 0;
+  let pausedUntil = 0;
+  let strikes = 0;
+
+  const acquire = () => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => waiting.push(resolve));
+  };
+
+  // A freed slot passes straight to the next waiting task
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return {
+    run: async <T,>(task: () => Promise<T>) => {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    throttle: async () => {
+      for (;;) {
+        const now = Date.now();
+        while (starts.length && starts[0] <= now - 60000) starts.shift();
+        const wait = Math.max(
+          pausedUntil - now,
+          requestsPerMinute > 0 && starts.length >= requestsPerMinute ? starts[0] + 60000 - now : 0
+        );
+        if (wait <= 0) {
+          starts.push(now);
+          return;
+        }
+        await sleep(wait);
+      }
+    },
+    rateLimited: () => {
+      const pauseMs = Math.min(MAX_RATE_LIMIT_PAUSE_MS, RATE_LIMIT_PAUSE_MS * 2 ** strikes++);
+      pausedUntil = Math.max(pausedUntil, Date.now() + pauseMs);
+      return pauseMs;
+    },
+    succeeded: () => {
+      strikes = 0;
+    }
+  };
+};
+
+const throttleProvider = (provider: LLMProvider, pool: RequestPool, onRateLimit?: (pauseMs: number) => void): LLMProvider => ({
+  ...provider,
+  generate: async request => {
+    await pool.throttle();
+    try {
+      const result = await provider.generate(request);
+      pool.succeeded();
+      return result;
+    } catch (error) {
+      if (isRateLimitError(error)) onRateLimit?.(pool.rateLimited());
+      throw error;
+    }
+  }
+});
+
+const describeConcurrency = ({ maxParallel, requestsPerMinute }: ConcurrencySettings) =>
+  `${maxParallel} in parallel, ${requestsPerMinute > 0 ? `${requestsPerMinute} requests/min` : 'no per-minute cap'}`;
+
+const EMPTY_JOBS: PersonaJobs = { queued: 0, running: 0, done: 0, failed: 0 };
+
+const personaJobStatus = (jobs: PersonaJobs): keyof PersonaJobs =>
+  jobs.running ? 'running' : jobs.queued ? 'queued' : jobs.failed ? 'failed' : 'done';
+
+// --- Run History (IndexedDB) ---
+
+const HISTORY_DB_NAME = 'creative-council';
+const HISTORY_DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+const PERSONAS_STORE = 'personas';
+const COUNCILS_STORE = 'councils';
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openHistoryDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(RUNS_STORE)) {
+      db.createObjectStore(RUNS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(PERSONAS_STORE)) {
+      db.createObjectStore(PERSONAS_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(COUNCILS_STORE)) {
+      db.createObjectStore(COUNCILS_STORE, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T,>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openHistoryDb();
+  try {
+    return await requestToPromise(fn(db.transaction(storeName, mode).objectStore(storeName)));
+  } finally {
+    db.close();
+  }
+};
+
+const RunHistoryStore = {
+  list: async () => {
+    const runs = await withStore(RUNS_STORE, 'readonly', store => store.getAll() as IDBRequest<SavedRun[]>);
+    return runs.sort((a, b) => b.createdAt - a.createdAt);
+  },
+  get: (id: string) => withStore(RUNS_STORE, 'readonly', store => store.get(id) as IDBRequest<SavedRun | undefined>),
+  save: (run: SavedRun) => withStore(RUNS_STORE, 'readwrite', store => store.put(run)),
+  rename: async (id: string, name: string) => {
+    const run = await RunHistoryStore.get(id);
+    if (run) await RunHistoryStore.save({ ...run, name, updatedAt: Date.now() });
+  },
+  remove: (id: string) => withStore(RUNS_STORE, 'readwrite', store => store.delete(id))
+};
+
+// --- Persona Library (IndexedDB) ---
+
+const PersonaLibraryStore = {
+  listPersonas: async () => {
+    const personas = await withStore(PERSONAS_STORE, 'readonly', store => store.getAll() as IDBRequest<LibraryPersona[]>);
+    return personas.sort((a, b) => a.name.localeCompare(b.name));
+  },
+  savePersona: (persona: LibraryPersona) => withStore(PERSONAS_STORE, 'readwrite', store => store.put(persona)),
+  removePersona: (id: string) => withStore(PERSONAS_STORE, 'readwrite', store => store.delete(id)),
+  listCouncils: async () => {
+    const councils = await withStore(COUNCILS_STORE, 'readonly', store => store.getAll() as IDBRequest<SavedCouncil[]>);
+    return councils.sort((a, b) => a.name.localeCompare(b.name));
+  },
+  saveCouncil: (council: SavedCouncil) => withStore(COUNCILS_STORE, 'readwrite', store => store.put(council)),
+  removeCouncil: (id: string) => withStore(COUNCILS_STORE, 'readwrite', store => store.delete(id))
+};
+
+const createLibraryId = () => `lib-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+
+// Library personas get their own ids so councils never collide with per-run ids like "persona-1"
+const toLibraryPersona = (persona: Persona): LibraryPersona => ({
+  ...persona,
+  id: createLibraryId(),
+  savedAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+const fromLibraryPersona = ({ savedAt, updatedAt, ...persona }: LibraryPersona): Persona => persona;
+
+const PERSONA_CSV_COLUMNS = ['id', 'name', 'age', 'gender', 'occupation', 'location', 'locationType', 'household', 'bio', 'painPoints'];
+
+const personasToCsv = (personas: Persona[]) => toCsv([
+  PERSONA_CSV_COLUMNS,
+  ...personas.map(p => [
+    p.id, p.name, String(p.age), p.gender || '', p.occupation, p.location || '', p.locationType || '', p.household || '', p.bio, p.painPoints.join('; ')
+  ])
+]);
+
+const personasFromCsv = (text: string): Persona[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const col = (row: string[], name: string) => row[header.indexOf(name)] ?? '';
+  return rows.map(row => ({
+    id: col(row, 'id'),
+    name: col(row, 'name'),
+    age: parseInt(col(row, 'age')) || 0,
+    occupation: col(row, 'occupation'),
+    bio: col(row, 'bio'),
+    painPoints: col(row, 'painPoints').split(';').map(v => v.trim()).filter(Boolean),
+    gender: col(row, 'gender') || undefined,
+    location: col(row, 'location') || undefined,
+    household: col(row, 'household') || undefined,
+    locationType: toLocationType(col(row, 'locationType'))
+  })).filter(p => p.name);
+};
+
+// Accepts our own export ({ personas, councils }) or a bare array of personas
+const parsePersonaLibraryJson = (text: string): { personas: Persona[]; councils: SavedCouncil[] } => {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return { personas: data, councils: [] };
+  return { personas: data.personas || [], councils: data.councils || [] };
+};
+
+const toSavedRun = (state: AppState, id: string, name: string): SavedRun => ({
+  id,
+  name,
+  startedAt: state.runStartedAt || Date.now(),
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  url: state.url,
+  country: state.markets.join(', '),
+  markets: state.markets,
+  brandProfile: state.brandProfile!,
+  personas: state.personas,
+  judgments: state.judgments,
+  comparisons: state.comparisons,
+  failedJudgments: state.failedJudgments,
+  debate: state.debate,
+  brief: state.brief || undefined,
+  briefFits: state.briefFits,
+  interviews: state.interviews,
+  usage: state.usage,
+  finalReport: state.finalReport,
+  logs: state.logs,
+  assets: state.assets.map(a => ({
+    id: a.id, name: a.file.name, mimeType: a.mimeType, blob: a.file, variant: a.variant,
+    videoInfo: a.videoInfo, strategy: a.strategy, keyframes: a.keyframes
+  })),
+  settings: state.runSettings || undefined
+});
+
+// API keys are deliberately left out: runs are exported and shared
+const captureRunSettings = (state: AppState): RunSettings => {
+  const { provider, openaiBaseUrl } = state.providerSettings;
+  const customTemplates = TEMPLATE_NAMES.filter(name => state.promptTemplates.active[name]);
+  return {
+    provider,
+    model: activeModel(state.providerSettings),
+    generation: Object.fromEntries(GENERATION_STAGES.map(stage => [stage, stageGeneration(state.providerSettings, stage)])) as RunSettings['generation'],
+    baseUrl: provider === 'openai' ? openaiBaseUrl : undefined,
+    numPersonas: state.numPersonas,
+    personaSource: state.personaSource,
+    comparisonMode: state.comparisonMode,
+    reviewMode: state.reviewMode,
+    debateRounds: state.debateRounds,
+    videoPreprocessing: state.videoPreprocessing,
+    budget: state.budget || undefined,
+    samplesPerPersona: state.samplesPerPersona,
+    concurrency: state.providerSettings.concurrency,
+    markets: state.markets.map(m => findMarket(m, state.customMarkets)),
+    nativeLanguage: state.nativeLanguage,
+    promptVersions: { ...PROMPT_VERSIONS, ...Object.fromEntries(TEMPLATE_NAMES.map(name => [name, templateVersionLabel(state.promptTemplates, name)])) },
+    promptTemplates: customTemplates.length ? Object.fromEntries(customTemplates.map(name => [name, activeTemplate(state.promptTemplates, name)])) : undefined
+  };
+};
+
+// One model name when every stage shared it, otherwise each stage with its sampling settings
+const describeRunModels = (settings: RunSettings) => {
+  const generation = settings.generation;
+  if (!generation) return settings.model;
+  const describe = (g: StageGeneration) => [
+    g.model,
+    ...(g.temperature !== undefined ? [`temp ${g.temperature}`] : []),
+    ...(g.topP !== undefined ? [`top-p ${g.topP}`] : []),
+    ...(g.thinkingBudget !== undefined ? [`thinking ${g.thinkingBudget}`] : [])
+  ].join(', ');
+  const described = GENERATION_STAGES.map(stage => describe(generation[stage]));
+  return new Set(described).size === 1
+    ? described[0]
+    : GENERATION_STAGES.map((stage, i) => `${GENERATION_STAGE_LABELS[stage]}: ${described[i]}`).join('; ');
+};
+
+const assetsFromSavedRun = (run: SavedRun): Asset[] => run.assets.map(a => {
+  const file = new File([a.blob], a.name, { type: a.mimeType });
+  return {
+    id: a.id, file, previewUrl: URL.createObjectURL(file), mimeType: a.mimeType, variant: a.variant,
+    videoInfo: a.videoInfo, strategy: a.strategy, keyframes: a.keyframes
+  };
+});
+
+// --- Helpers ---
+
+// Research only guarantees name, category, tone and audience; the lists it may leave out default to empty
+const withBrandDefaults = (brand: BrandProfile): BrandProfile => ({
+  ...brand,
+  tone: brand.tone || [],
+  brandColors: brand.brandColors || [],
+  competitors: brand.competitors || [],
+  uniqueSellingPropositions: brand.uniqueSellingPropositions || []
+});
+
+const csvEscape = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (rows: string[][]) => rows.map(row => row.map(csvEscape).join(',')).join('\r\n');
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row);
+      row = []; field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(v => v.trim()));
+};
+
+const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const readFilePart = async (file: File, mimeType = file.type): Promise<ContentPart> => {
+  const base64 = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  return { inlineData: { mimeType, data: base64 } };
+};
+
+const readAssetPart = (asset: Asset) => readFilePart(asset.file, asset.mimeType);
+
+const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const interviewOf = (state: AppState, personaId: string, assetId: string) =>
+  state.interviews.find(i => i.personaId === personaId && i.assetId === assetId)?.messages || [];
+
+const averageScore = (judgments: Judgment[]) =>
+  judgments.length ? Math.round(judgments.reduce((a, j) => a + j.score, 0) / judgments.length) : 0;
+
+const findJudgment = (judgments: Judgment[], personaId: string, assetId: string) =>
+  judgments.find(j => j.personaId === personaId && j.assetId === assetId);
+
+const LOCATION_TYPES: LocationType[] = ['urban', 'suburban', 'rural'];
+
+const toLocationType = (value?: string): LocationType | undefined => {
+  const v = value?.toLowerCase().trim();
+  return LOCATION_TYPES.find(t => t === v);
+};
+
+// Birth-year cut-offs (Pew), derived from age at the time of the run
+const GENERATIONS: { label: string; from: number }[] = [
+  { label: 'Gen Alpha', from: 2013 },
+  { label: 'Gen Z', from: 1997 },
+  { label: 'Millennials', from: 1981 },
+  { label: 'Gen X', from: 1965 },
+  { label: 'Boomers', from: 1946 },
+  { label: 'Silent', from: -Infinity }
+];
+
+const generationOf = (age: number, year = new Date().getFullYear()) =>
+  GENERATIONS.find(g => year - age >= g.from)!.label;
+
+// Model-generated ids are not guaranteed to be unique, and judgments are keyed by them
+const ensureUniquePersonaIds = (personas: Persona[]): Persona[] => {
+  const seen = new Set<string>();
+  return personas.map((p, i) => {
+    let id = p.id;
+    // The fallback can itself be taken, e.g. when two personas both arrive as persona-2
+    for (let n = i + 1; !id || seen.has(id); n++) id = `persona-${n}`;
+    seen.add(id);
+    return { ...p, id };
+  });
+};
+
+const buildSynthesisInput = (assets: Asset[], personas: Persona[], judgments: Judgment[]): SynthesisAssetInput[] =>
+  assets.map(asset => {
+    const assetJudgments = judgments.filter(j => j.assetId === asset.id);
+    return {
+      assetId: asset.id,
+      assetName: asset.file.name,
+      mediaType: asset.mimeType.startsWith('video') ? 'video' : 'image',
+      averageScore: averageScore(assetJudgments),
+      judgments: assetJudgments.map(j => {
+        const persona = personas.find(p => p.id === j.personaId);
+        return {
+          personaId: j.personaId,
+          personaName: persona?.name || j.personaId,
+          role: persona?.occupation,
+          age: persona?.age,
+          generation: persona ? generationOf(persona.age) : undefined,
+          gender: persona?.gender,
+          location: persona?.location,
+          locationType: persona?.locationType,
+          market: persona?.market,
+          score: j.score,
+          quote: j.quote,
+          verdict: j.verdict,
+          pros: j.pros,
+          cons: j.cons,
+          emotionalTags: j.emotionalTags,
+          emotionalIntensity: j.emotionalIntensity,
+          shareLikelihood: j.shareLikelihood,
+          trustPerception: j.trustPerception,
+          shareWith: j.shareWith,
+          languageCues: j.languageCues,
+          timecodedReactions: j.timecodedReactions
+        };
+      })
+    };
+  });
+
+const getVariantGroups = (assets: Asset[]) =>
+  VARIANT_LABELS
+    .map(label => ({ label, assets: assets.filter(a => a.variant === label) }))
+    .filter(g => g.assets.length > 0);
+
+const computeComparisonStats = (comparisons: Comparison[], labels: string[]) => {
+  const total = comparisons.length;
+  const variants = labels.map(label => {
+    const wins = comparisons.filter(c => c.preferredVariant === label);
+    return {
+      label,
+      wins: wins.length,
+      winRate: total ? Math.round((wins.length / total) * 100) : 0,
+      avgMargin: wins.length ? +(wins.reduce((a, c) => a + c.margin, 0) / wins.length).toFixed(1) : 0
+    };
+  });
+
+  // Win rate per variant among the comparisons that carried each emotion
+  const emotionWins: Record<string, Record<string, number>> = {};
+  comparisons.forEach(c => {
+    c.emotionalTags?.forEach(tag => {
+      const t = tag.toLowerCase().trim();
+      emotionWins[t] = emotionWins[t] || {};
+      emotionWins[t][c.preferredVariant] = (emotionWins[t][c.preferredVariant] || 0) + 1;
+    });
+  });
+  const emotions = Object.entries(emotionWins)
+    .map(([tag, wins]) => ({ tag, wins, total: Object.values(wins).reduce((a, b) => a + b, 0) }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, 6);
+
+  return { total, variants, emotions };
+};
+
+const buildComparisonInput = (assets: Asset[], personas: Persona[], comparisons: Comparison[]): ComparisonSynthesisInput => ({
+  variants: getVariantGroups(assets).map(g => ({ label: g.label, assetNames: g.assets.map(a => a.file.name) })),
+  results: computeComparisonStats(comparisons, getVariantGroups(assets).map(g => g.label)).variants,
+  preferences: comparisons.map(c => ({
+    personaName: personas.find(p => p.id === c.personaId)?.name || c.personaId,
+    preferredVariant: c.preferredVariant,
+    margin: c.margin,
+    reason: c.reason,
+    emotionalTags: c.emotionalTags
+  }))
+});
+
+// --- Attention Timeline ---
+
+// Accepts "12", "12s", "0:12", "00:12.5" and "1:02:03"
+const parseTimecode = (time: string): number | null => {
+  const cleaned = time.trim().replace(/s$/i, '');
+  if (!cleaned) return null;
+  const parts = cleaned.split(':').map(Number);
+  if (parts.some(isNaN)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const formatTimecode = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const collectTimelineReactions = (judgments: Judgment[], personas: Persona[], assetId: string): TimelineReaction[] =>
+  judgments
+    .filter(j => j.assetId === assetId)
+    .flatMap(j => (j.timecodedReactions || []).map(r => ({
+      seconds: parseTimecode(r.time),
+      time: r.time,
+      reaction: r.reaction,
+      personaId: j.personaId,
+      personaName: personas.find(p => p.id === j.personaId)?.name || j.personaId
+    })))
+    .filter((r): r is TimelineReaction => r.seconds !== null)
+    .sort((a, b) => a.seconds - b.seconds);
+
+// Reactions within the same window count as one moment; busiest windows first
+const mostCitedMoments = (reactions: TimelineReaction[], limit = 4, windowSeconds = 2): AttentionMoment[] => {
+  const windows: Record<number, TimelineReaction[]> = {};
+  reactions.forEach(r => {
+    const key = Math.floor(r.seconds / windowSeconds);
+    windows[key] = [...(windows[key] || []), r];
+  });
+  return Object.values(windows)
+    .map(group => ({ seconds: group[0].seconds, reactions: group }))
+    .sort((a, b) => b.reactions.length - a.reactions.length || a.seconds - b.seconds)
+    .slice(0, limit)
+    .sort((a, b) => a.seconds - b.seconds);
+};
+
+const timelineDensity = (reactions: TimelineReaction[], duration: number, bins = 40) => {
+  const counts = new Array(bins).fill(0);
+  if (duration <= 0) return counts;
+  reactions.forEach(r => {
+    counts[Math.min(bins - 1, Math.floor((r.seconds / duration) * bins))]++;
+  });
+  return counts;
+};
+
+// Seeks a detached video element to each timestamp and grabs a JPEG of the frame
+// Times can depend on the duration, which is only known once the video loads
+const captureVideoFrames = (url: string, times: number[] | ((duration: number) => number[]), width = 480): Promise<AttentionFrames> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+
+    // Settles once: stops the seek loop below and releases the element's media buffer
+    let settled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      try {
+        outcome();
+      } finally {
+        clearTimeout(timeout);
+        video.removeAttribute('src');
+        video.load();
+      }
+    };
+
+    // Re-armed on every seek, so long frame lists don't run out of time
+    const arm = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => settle(() => reject(new Error('Timed out reading video frames'))), 15000);
+    };
+    arm();
+    const frames: AttentionFrames['frames'] = [];
+
+    const seek = (seconds: number) => new Promise<void>(done => {
+      arm();
+      video.addEventListener('seeked', () => done(), { once: true });
+      video.currentTime = Math.min(seconds, Math.max(0, video.duration - 0.1));
+    });
+
+    video.addEventListener('loadeddata', async () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = Math.round(width * (video.videoHeight / video.videoWidth || 9 / 16));
+        const ctx = canvas.getContext('2d');
+        for (const seconds of typeof times === 'function' ? times(video.duration) : times) {
+          await seek(seconds);
+          if (settled) return;
+          ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+          frames.push({ seconds, image: canvas.toDataURL('image/jpeg', 0.8) });
+        }
+        const duration = video.duration;
+        settle(() => resolve({ duration, frames }));
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    }, { once: true });
+    video.addEventListener('error', () => settle(() => reject(video.error)), { once: true });
+  });
+
+// --- Palette Compliance ---
+// Deterministic and local: dominant colors come from a fixed color histogram, and distance
+// to the brand palette is CIEDE2000 in Lab space. No model call is involved.
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+const ON_BRAND_DELTA_E = 10; // Closer than this, a color reads as the brand color
+const CLUSTER_DELTA_E = 8; // Histogram bins closer than this merge into one dominant color
+const NEUTRAL_CHROMA = 10; // Greys, whites and blacks don't count against the palette
+const PALETTE_SAMPLE_SIZE = 120; // Longest edge, in pixels, of each sampled image
+const PALETTE_MIN_SHARE = 2; // % of pixels a color needs to count as dominant
+const OFF_BRAND_CALLOUT_SHARE = 5; // % of pixels before an off-brand color is called out
+const VIDEO_PALETTE_POINTS = [0.1, 0.3, 0.5, 0.7, 0.9]; // Sampled frames, as fractions of the duration
+
+const toHex = (rgb: Rgb) => `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+const parseHex = (value: string): Rgb | null => {
+  const hex = value.match(/#([0-9a-f]{6}|[0-9a-f]{3})\b/i)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as Rgb;
+};
+
+// Accepts "#FACC15", "#fc1", "Sunshine Yellow (#FACC15)" or CSS color names. Descriptive
+// names fall back to their last recognisable word ("Deep Navy Blue" -> navy... -> blue).
+const parseColor = (value: string): Rgb | null => {
+  const hex = parseHex(value);
+  if (hex) return hex;
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return null;
+  const words = value.toLowerCase().match(/[a-z]+/g) || [];
+  const candidates = [words.join(''), ...words.slice().reverse()];
+  for (const candidate of candidates) {
+    ctx.fillStyle = '#010203';
+    ctx.fillStyle = candidate;
+    if (ctx.fillStyle !== '#010203') return parseHex(ctx.fillStyle);
+  }
+  return null;
+};
+
+const rgbToLab = ([r, g, b]: Rgb): Lab => {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  // sRGB -> XYZ (D65), relative to the reference white
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const chroma = ([, a, b]: Lab) => Math.hypot(a, b);
+
+// CIEDE2000 (Sharma, Wu & Dalal 2005)
+const deltaE2000 = ([L1, a1, b1]: Lab, [L2, a2, b2]: Lab) => {
+  const rad = Math.PI / 180;
+  const pow7 = (v: number) => v ** 7;
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(pow7(cBar) / (pow7(cBar) + pow7(25))));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (Math.atan2(b, a) / rad + 360) % 360;
+  const h1p = c1p === 0 ? 0 : hue(b1, a1p);
+  const h2p = c2p === 0 ? 0 : hue(b2, a2p);
+
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dLp = L2 - L1;
+  const dCp = c2p - c1p;
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp * rad) / 2);
+
+  const lBar = (L1 + L2) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBar = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hBar = Math.abs(h1p - h2p) <= 180 ? hBar / 2 : hBar < 360 ? (hBar + 360) / 2 : (hBar - 360) / 2;
+  }
+  const t = 1 - 0.17 * Math.cos((hBar - 30) * rad) + 0.24 * Math.cos(2 * hBar * rad)
+    + 0.32 * Math.cos((3 * hBar + 6) * rad) - 0.2 * Math.cos((4 * hBar - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hBar - 275) / 25) ** 2));
+  const rc = 2 * Math.sqrt(pow7(cBarP) / (pow7(cBarP) + pow7(25)));
+  const sl = 1 + (0.015 * (lBar - 50) ** 2) / Math.sqrt(20 + (lBar - 50) ** 2);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+  return Math.sqrt((dLp / sl) ** 2 + (dCp / sc) ** 2 + (dHp / sh) ** 2 + rt * (dCp / sc) * (dHp / sh));
+};
+
+// 4 bits per channel gives 4096 bins; bins are then merged largest-first into clusters
+const dominantColors = (samples: Uint8ClampedArray[]) => {
+  const bins = new Map<number, { sum: Rgb; count: number }>();
+  let total = 0;
+  for (const data of samples) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue; // Transparent pixels aren't part of the design
+      const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+      const bin = bins.get(key) || { sum: [0, 0, 0] as Rgb, count: 0 };
+      bin.sum[0] += data[i];
+      bin.sum[1] += data[i + 1];
+      bin.sum[2] += data[i + 2];
+      bin.count++;
+      bins.set(key, bin);
+      total++;
+    }
+  }
+
+  // Ties are broken by bin key so the result never depends on pixel order
+  const sorted = [...bins.entries()].sort((a, b) => b[1].count - a[1].count || a[0] - b[0]);
+  const clusters: { rgb: Rgb; lab: Lab; count: number }[] = [];
+  for (const [, bin] of sorted) {
+    const rgb = bin.sum.map(v => v / bin.count) as Rgb;
+    const lab = rgbToLab(rgb);
+    const match = clusters.find(c => deltaE2000(c.lab, lab) < CLUSTER_DELTA_E);
+    if (match) {
+      const count = match.count + bin.count;
+      match.rgb = match.rgb.map((v, i) => (v * match.count + rgb[i] * bin.count) / count) as Rgb;
+      match.lab = rgbToLab(match.rgb);
+      match.count = count;
+    } else {
+      clusters.push({ rgb, lab, count: bin.count });
+    }
+  }
+
+  return clusters
+    .map(c => ({ rgb: c.rgb, lab: c.lab, share: percentOf(c.count, total) }))
+    .filter(c => c.share >= PALETTE_MIN_SHARE)
+    .sort((a, b) => b.share - a.share);
+};
+
+// Adherence is the share of colored pixels that sit on a brand color. Neutrals only count
+// when the brand palette itself contains them.
+const checkPalette = (assetId: string, samples: Uint8ClampedArray[], brandColors: string[]): PaletteCheck | null => {
+  const palette = brandColors
+    .map(name => ({ name, rgb: parseColor(name) }))
+    .filter((c): c is { name: string; rgb: Rgb } => !!c.rgb)
+    .map(c => ({ ...c, lab: rgbToLab(c.rgb) }));
+  if (!palette.length) return null;
+
+  const swatches: PaletteSwatch[] = dominantColors(samples).map(c => {
+    const nearest = palette
+      .map(p => ({ name: p.name, hex: toHex(p.rgb), deltaE: deltaE2000(c.lab, p.lab) }))
+      .sort((a, b) => a.deltaE - b.deltaE)[0];
+    return {
+      hex: toHex(c.rgb),
+      share: c.share,
+      neutral: chroma(c.lab) < NEUTRAL_CHROMA,
+      nearest: nearest.name,
+      nearestHex: nearest.hex,
+      deltaE: round1(nearest.deltaE),
+      onBrand: nearest.deltaE <= ON_BRAND_DELTA_E
+    };
+  });
+
+  const counted = swatches.filter(s => s.onBrand || !s.neutral);
+  const countedShare = counted.reduce((sum, s) => sum + s.share, 0);
+  const onBrandShare = counted.filter(s => s.onBrand).reduce((sum, s) => sum + s.share, 0);
+  return {
+    assetId,
+    score: countedShare ? Math.round((onBrandShare / countedShare) * 100) : 100,
+    swatches,
+    offBrand: swatches.filter(s => !s.onBrand && !s.neutral && s.share >= OFF_BRAND_CALLOUT_SHARE),
+    framesSampled: samples.length
+  };
+};
+
+const samplePixels = (url: string) => new Promise<Uint8ClampedArray>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, PALETTE_SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+  };
+  img.onerror = () => reject(new Error('Could not load image'));
+  img.src = url;
+});
+
+// Images are sampled whole; videos at fixed points of their duration
+const computePaletteChecks = async (assets: Asset[], brandColors: string[]): Promise<PaletteCheck[]> => {
+  const checks: PaletteCheck[] = [];
+  for (const asset of assets) {
+    try {
+      const urls = asset.mimeType.startsWith('video')
+        ? (await captureVideoFrames(asset.previewUrl, duration => VIDEO_PALETTE_POINTS.map(p => p * duration), 240)).frames.map(f => f.image)
+        : [asset.previewUrl];
+      const samples = await Promise.all(urls.map(samplePixels));
+      const check = checkPalette(asset.id, samples, brandColors);
+      if (check) checks.push(check);
+    } catch (e) {
+      console.warn(`Could not check the palette of ${asset.id}`, e);
+    }
+  }
+  return checks;
+};
+
+// --- Video Preprocessing ---
+// Large videos are slow to upload inline and some providers can't read video at all.
+// Instead, frames are sampled in the browser and sent as JPEGs, each labelled with its timestamp.
+
+const DEFAULT_VIDEO_PREPROCESSING: VideoPreprocessing = { mode: 'scene', interval: 2, sceneThreshold: 5, inlineLimitMb: 20 };
+const KEYFRAME_MODE_LABELS: Record<KeyframeMode, string> = { scene: 'On scene changes', rate: 'At a fixed rate' };
+const MAX_KEYFRAMES = 32; // Keeps the request size bounded on long videos
+const KEYFRAME_WIDTH = 768;
+const SCENE_PROBE_STEP = 0.5; // Seconds between the small frames compared for scene changes
+const SCENE_PROBE_WIDTH = 96;
+const MAX_SCENE_PROBES = 240;
+
+const isVideoAsset = (asset: Asset) => asset.mimeType.startsWith('video');
+
+const readVideoInfo = (url: string) => new Promise<VideoInfo>((resolve, reject) => {
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  const timeout = setTimeout(() => reject(new Error('Timed out reading video metadata')), 15000);
+  video.addEventListener('loadedmetadata', () => {
+    clearTimeout(timeout);
+    resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight });
+  }, { once: true });
+  video.addEventListener('error', () => {
+    clearTimeout(timeout);
+    reject(video.error);
+  }, { once: true });
+  video.src = url;
+});
+
+// The user's choice wins; otherwise videos above the size limit default to keyframes
+const resolveStrategy = (asset: Asset, prep: VideoPreprocessing): VideoStrategy | null => {
+  if (!isVideoAsset(asset)) return null;
+  return asset.strategy || (asset.file.size > prep.inlineLimitMb * 1024 * 1024 ? 'keyframes' : 'inline');
+};
+
+const strategyLabel = (asset: Asset, prep: VideoPreprocessing) => {
+  const strategy = resolveStrategy(asset, prep);
+  if (asset.keyframes?.length) return `Sent as ${asset.keyframes.length} keyframes`;
+  if (asset.strategy) return strategy === 'keyframes' ? 'Keyframes, chosen manually' : 'Full video, chosen manually';
+  return strategy === 'keyframes' ? `Over ${prep.inlineLimitMb} MB, so keyframes are suggested` : 'Full video';
+};
+
+const describeVideo = (info?: VideoInfo) =>
+  info ? `${formatTimecode(info.duration)} · ${info.width}×${info.height}` : 'Reading video...';
+
+// What the model actually saw, for reports; null for images
+const judgedFrom = (asset: Asset) => {
+  if (!isVideoAsset(asset)) return null;
+  return asset.keyframes?.length ? `${asset.keyframes.length} keyframes` : 'Full video';
+};
+
+// Spreads frames evenly when the interval would exceed the cap
+const rateKeyframes = (duration: number, interval: number) => {
+  const step = Math.max(interval, duration / MAX_KEYFRAMES);
+  const times: number[] = [];
+  for (let t = 0; t < duration && times.length < MAX_KEYFRAMES; t += step) times.push(Number(t.toFixed(2)));
+  return times.length ? times : [0];
+};
+
+// Mean absolute difference of two RGBA buffers, from 0 (identical) to 1
+const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let total = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i += 4) {
+    total += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+  }
+  return total / ((length / 4) * 3 * 255);
+};
+
+// Keeps the opening frame plus every probe that differs enough from the one before it.
+// Sensitivity 1 only catches hard cuts; 10 also catches camera moves and fades.
+const sceneKeyframes = async (url: string, duration: number, sensitivity: number) => {
+  const step = Math.max(SCENE_PROBE_STEP, duration / MAX_SCENE_PROBES);
+  const probes = Array.from({ length: Math.max(1, Math.ceil(duration / step)) }, (_, i) => Number((i * step).toFixed(2)));
+  const { frames } = await captureVideoFrames(url, probes, SCENE_PROBE_WIDTH);
+  const pixels = await Promise.all(frames.map(f => samplePixels(f.image)));
+  const threshold = 0.3 - sensitivity * 0.025;
+  const changes = frames.slice(1)
+    .map((f, i) => ({ seconds: f.seconds, diff: frameDifference(pixels[i], pixels[i + 1]) }))
+    .filter(c => c.diff >= threshold)
+    .sort((a, b) => b.diff - a.diff)
+    .slice(0, MAX_KEYFRAMES - 1);
+  return [0, ...changes.map(c => c.seconds).sort((a, b) => a - b)];
+};
+
+const selectKeyframes = async (asset: Asset, prep: VideoPreprocessing) => {
+  const duration = asset.videoInfo?.duration ?? (await readVideoInfo(asset.previewUrl)).duration;
+  return prep.mode === 'scene'
+    ? sceneKeyframes(asset.previewUrl, duration, prep.sceneThreshold)
+    : rateKeyframes(duration, prep.interval);
+};
+
+// Returns the parts that stand in for an asset in a prompt, plus the keyframe timestamps when
+// the video was sampled. Keyframes already recorded on the asset win, so retries and
+// interviews see the same frames the judgment did.
+const readAssetParts = async (asset: Asset, prep: VideoPreprocessing): Promise<{ parts: ContentPart[]; keyframes?: number[] }> => {
+  const recorded = asset.keyframes?.length ? asset.keyframes : null;
+  if (!recorded && resolveStrategy(asset, prep) !== 'keyframes') return { parts: [await readAssetPart(asset)] };
+
+  const keyframes = recorded || await selectKeyframes(asset, prep);
+  const { duration, frames } = await captureVideoFrames(asset.previewUrl, keyframes, KEYFRAME_WIDTH);
+  const size = asset.videoInfo ? `, ${asset.videoInfo.width}x${asset.videoInfo.height}` : '';
+  return {
+    keyframes,
+    parts: [
+      { text: `The video "${asset.file.name}" (${formatTimecode(duration)}${size}) is shown as ${frames.length} keyframes in order, each labelled with its timestamp. There is no audio. Judge the visuals and infer pacing from the gaps between frames.` },
+      ...frames.flatMap(f => [
+        { text: `Frame at ${formatTimecode(f.seconds)}:` },
+        { inlineData: { mimeType: 'image/jpeg', data: f.image.split(',')[1] } }
+      ])
+    ]
+  };
+};
+
+// --- Statistics ---
+// Every figure in the report is computed here, so the dashboard, the tables and the
+// synthesis narrative quote the same numbers. The model never does arithmetic.
+
+const SCORE_BUCKETS: [number, number][] = [[0, 20], [21, 40], [41, 60], [61, 80], [81, 100]];
+const CONSENSUS_BAND = 10;
+const OUTLIER_THRESHOLD = 25;
+const FAST_IMPRESSION_SECONDS = 3;
+const TOP_PHRASES = 6;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Population standard deviation: the council is the whole population being described
+const stdDev = (values: number[]) => {
+  if (!values.length) return 0;
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+const percentOf = (count: number, total: number) => total ? Math.round((count / total) * 100) : 0;
+
+// Repeated samples estimate an underlying reaction, so these use the n - 1 sample deviation
+const UNSTABLE_SCORE_SD = 10; // Score points; above this a persona's reactions count as unstable
+const T_CRITICAL_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23];
+
+// Two-sided 95% critical value of Student's t; past the table it approaches 1.96
+const tCritical95 = (df: number) => df <= T_CRITICAL_95.length ? T_CRITICAL_95[df - 1] : 1.96 + 2.4 / df;
+
+const sampleStdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((total, v) => total + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Clamped to the metric's scale so a wide interval never reads as a score above 100
+const confidenceInterval = (values: number[], max: number): MetricInterval => {
+  const m = mean(values);
+  const sd = sampleStdDev(values);
+  const margin = values.length > 1 ? tCritical95(values.length - 1) * sd / Math.sqrt(values.length) : 0;
+  return {
+    mean: round1(m),
+    stdDev: round1(sd),
+    low: round1(Math.max(0, m - margin)),
+    high: round1(Math.min(max, m + margin)),
+    n: values.length
+  };
+};
+
+const formatInterval = (interval: MetricInterval | null, unit = '') =>
+  interval ? `${interval.mean}${unit} (${interval.low}–${interval.high})` : '—';
+
+// Scores are bucketed by their rounded, clamped value so fractional scores land in a bucket
+const scoreDistribution = (scores: number[]) =>
+  SCORE_BUCKETS.map(([lo, hi]) => ({
+    range: `${lo}-${hi}`,
+    count: scores.map(s => Math.min(100, Math.max(0, Math.round(s)))).filter(s => s >= lo && s <= hi).length
+  }));
+
+const consensusIndex = (scores: number[]) => {
+  const m = mean(scores);
+  return percentOf(scores.filter(s => Math.abs(s - m) <= CONSENSUS_BAND).length, scores.length);
+};
+
+const polarizationIndex = (scores: number[]) =>
+  percentOf(scores.filter(s => Math.round(s) <= 20 || Math.round(s) >= 81).length, scores.length);
+
+// Average intensity per emotion only counts judgments that reported an intensity
+const emotionFrequencies = (judgments: Judgment[]) => {
+  const byTag: Record<string, { count: number; intensities: number[] }> = {};
+  judgments.forEach(j => {
+    j.emotionalTags?.forEach(tag => {
+      const t = tag.toLowerCase().trim();
+      if (!t) return;
+      byTag[t] = byTag[t] || { count: 0, intensities: [] };
+      byTag[t].count++;
+      if (typeof j.emotionalIntensity === 'number') byTag[t].intensities.push(j.emotionalIntensity);
+    });
+  });
+  return Object.entries(byTag)
+    .map(([tag, { count, intensities }]) => ({ tag, count, avgIntensity: round1(mean(intensities)) }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Repeated phrases, counted case-insensitively; the first wording seen is the one shown
+const phraseFrequencies = (phrases: string[]) => {
+  const byKey: Record<string, { text: string; count: number }> = {};
+  phrases.forEach(phrase => {
+    const text = phrase.trim().replace(/[.!]+$/, '');
+    const key = text.toLowerCase();
+    if (!key) return;
+    byKey[key] = byKey[key] || { text, count: 0 };
+    byKey[key].count++;
+  });
+  return Object.values(byKey).sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+};
+
+const definedValues = (values: (number | undefined)[]) => values.filter((v): v is number => typeof v === 'number');
+
+const DEMOGRAPHIC_LABELS: Record<DemographicDimension, string> = {
+  generation: 'Generation',
+  gender: 'Gender',
+  locationType: 'Urban / Suburban / Rural'
+};
+
+const demographicValue = (persona: Persona, dimension: DemographicDimension) => {
+  switch (dimension) {
+    case 'generation': return generationOf(persona.age);
+    case 'gender': return persona.gender?.trim() || 'Unspecified';
+    case 'locationType': return persona.locationType || 'Unspecified';
+  }
+};
+
+// Slices are sorted by size so the biggest groups lead; judgments count once per asset
+const sliceStats = (judgments: Judgment[], personas: Persona[], dimension: DemographicDimension): SliceStat[] => {
+  const groups: Record<string, Persona[]> = {};
+  personas.forEach(p => {
+    const key = demographicValue(p, dimension);
+    groups[key] = [...(groups[key] || []), p];
+  });
+  return Object.entries(groups)
+    .map(([slice, members]) => {
+      const ids = new Set(members.map(p => p.id));
+      const sliceJudgments = judgments.filter(j => ids.has(j.personaId));
+      return {
+        slice,
+        personas: members.length,
+        judgments: sliceJudgments.length,
+        mean: round1(mean(sliceJudgments.map(j => j.score))),
+        topEmotion: emotionFrequencies(sliceJudgments)[0]?.tag || null
+      };
+    })
+    .filter(s => s.judgments > 0)
+    .sort((a, b) => b.personas - a.personas || a.slice.localeCompare(b.slice));
+};
+
+// Headline text comes from the sample nearest the mean score; the numbers are averaged across samples
+const summarizeSamples = (samples: JudgmentSample[]): JudgmentSample => {
+  const m = mean(samples.map(s => s.score));
+  const representative = samples.reduce((best, s) => Math.abs(s.score - m) < Math.abs(best.score - m) ? s : best);
+  const intensities = definedValues(samples.map(s => s.emotionalIntensity));
+  const shares = definedValues(samples.map(s => s.shareLikelihood));
+  return {
+    ...representative,
+    score: Math.round(m),
+    emotionalIntensity: intensities.length ? round1(mean(intensities)) : undefined,
+    shareLikelihood: shares.length ? Math.round(mean(shares)) : undefined
+  };
+};
+
+const sampledValues = (judgment: Judgment, pick: (sample: JudgmentSample) => number | undefined) =>
+  definedValues((judgment.samples?.length ? judgment.samples : [judgment]).map(pick));
+
+const computeSampledJudgments = (assets: Asset[], personas: Persona[], judgments: Judgment[]): SampledJudgmentStat[] =>
+  judgments
+    .filter(j => (j.samples?.length || 0) > 1)
+    .map(j => {
+      const intensities = sampledValues(j, s => s.emotionalIntensity);
+      const shares = sampledValues(j, s => s.shareLikelihood);
+      const score = confidenceInterval(sampledValues(j, s => s.score), 100);
+      return {
+        personaId: j.personaId,
+        personaName: personas.find(p => p.id === j.personaId)?.name || j.personaId,
+        assetId: j.assetId,
+        assetName: assets.find(a => a.id === j.assetId)?.file.name || j.assetId,
+        samples: j.samples!.length,
+        score,
+        intensity: intensities.length ? confidenceInterval(intensities, 10) : null,
+        share: shares.length ? confidenceInterval(shares, 100) : null,
+        unstable: score.stdDev > UNSTABLE_SCORE_SD
+      };
+    });
+
+const summarizeSampling = (rows: SampledJudgmentStat[], judgments: Judgment[]): SamplingSummary | null => {
+  if (!rows.length) return null;
+  // Unrounded per-judgment means, so the council interval isn't skewed by the headline rounding
+  const means = (pick: (sample: JudgmentSample) => number | undefined) =>
+    judgments.map(j => sampledValues(j, pick)).filter(v => v.length).map(mean);
+  const intensities = means(s => s.emotionalIntensity);
+  const shares = means(s => s.shareLikelihood);
+  return {
+    samplesPerPersona: Math.max(...rows.map(r => r.samples)),
+    score: confidenceInterval(means(s => s.score), 100),
+    intensity: intensities.length ? confidenceInterval(intensities, 10) : null,
+    share: shares.length ? confidenceInterval(shares, 100) : null,
+    noise: round1(mean(rows.map(r => r.score.stdDev))),
+    unstable: rows
+      .filter(r => r.unstable)
+      .sort((a, b) => b.score.stdDev - a.score.stdDev)
+      .map(r => ({ personaName: r.personaName, assetName: r.assetName, stdDev: r.score.stdDev, low: r.score.low, high: r.score.high }))
+  };
+};
+
+const computeCouncilStats = (assets: Asset[], personas: Persona[], judgments: Judgment[]): CouncilStats => {
+  const scores = judgments.map(j => j.score);
+  const shares = definedValues(judgments.map(j => j.shareLikelihood));
+  const m = mean(scores);
+  const assetName = (id: string) => assets.find(a => a.id === id)?.file.name || id;
+
+  const assetStats = assets.map(asset => {
+    const assetJudgments = judgments.filter(j => j.assetId === asset.id);
+    const assetScores = assetJudgments.map(j => j.score);
+    return {
+      assetId: asset.id,
+      assetName: asset.file.name,
+      judgments: assetJudgments.length,
+      mean: round1(mean(assetScores)),
+      median: round1(median(assetScores)),
+      stdDev: round1(stdDev(assetScores)),
+      spread: assetScores.length ? Math.max(...assetScores) - Math.min(...assetScores) : 0,
+      avgShare: Math.round(mean(definedValues(assetJudgments.map(j => j.shareLikelihood)))),
+      topEmotion: emotionFrequencies(assetJudgments)[0]?.tag || null
+    };
+  }).filter(a => a.judgments > 0);
+
+  const ranked = [...assetStats].sort((a, b) => b.mean - a.mean);
+  const impressions = definedValues(judgments.map(j => j.firstImpressionSeconds));
+
+  return {
+    personaCount: personas.length,
+    assetCount: assets.length,
+    judgmentCount: judgments.length,
+    mean: round1(m),
+    median: round1(median(scores)),
+    stdDev: round1(stdDev(scores)),
+    distribution: scoreDistribution(scores),
+    avgIntensity: round1(mean(definedValues(judgments.map(j => j.emotionalIntensity)))),
+    avgShare: Math.round(mean(shares)),
+    shareStdDev: round1(stdDev(shares)),
+    consensusIndex: consensusIndex(scores),
+    polarizationIndex: polarizationIndex(scores),
+    emotions: emotionFrequencies(judgments),
+    fastImpressionShare: impressions.length ? percentOf(impressions.filter(s => s <= FAST_IMPRESSION_SECONDS).length, impressions.length) : null,
+    trust: phraseFrequencies(judgments.map(j => j.trustPerception || ''))
+      .map(t => ({ label: t.text.toLowerCase(), count: t.count, share: percentOf(t.count, judgments.length) })),
+    topPros: phraseFrequencies(judgments.flatMap(j => j.pros || [])).slice(0, TOP_PHRASES),
+    topCons: phraseFrequencies(judgments.flatMap(j => j.cons || [])).slice(0, TOP_PHRASES),
+    outliers: judgments
+      .filter(j => Math.abs(j.score - m) > OUTLIER_THRESHOLD)
+      .map(j => ({
+        personaName: personas.find(p => p.id === j.personaId)?.name || j.personaId,
+        assetName: assetName(j.assetId),
+        score: j.score,
+        deviation: round1(j.score - m)
+      }))
+      .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation)),
+    assets: assetStats,
+    winner: ranked.length > 1
+      ? { assetId: ranked[0].assetId, assetName: ranked[0].assetName, marginOverRunnerUp: round1(ranked[0].mean - ranked[1].mean) }
+      : null,
+    demographics: {
+      generation: sliceStats(judgments, personas, 'generation'),
+      gender: sliceStats(judgments, personas, 'gender'),
+      locationType: sliceStats(judgments, personas, 'locationType')
+    },
+    sampling: summarizeSampling(computeSampledJudgments(assets, personas, judgments), judgments)
+  };
+};
+
+const MARKET_QUOTES = 3;
+
+// Personas saved before multi-market runs have no market; they count towards the primary one
+const personaMarket = (persona: Persona | undefined, markets: string[]) => persona?.market || markets[0];
+
+const emotionShares = (judgments: Judgment[]) => {
+  const shares: Record<string, number> = {};
+  emotionFrequencies(judgments).forEach(e => { shares[e.tag] = percentOf(e.count, judgments.length); });
+  return shares;
+};
+
+// Compares each market's council with the others. Emotions are ranked by how much more often
+// the market uses them than everyone else; quotes by how far the persona's score sits from the
+// other markets' mean on the same asset, which is where culture-specific reactions tend to show.
+const computeMarketStats = (assets: Asset[], personas: Persona[], judgments: Judgment[], markets: string[]): MarketStats[] => {
+  if (markets.length < 2) return [];
+  const marketOf = (j: Judgment) => personaMarket(personas.find(p => p.id === j.personaId), markets);
+
+  return markets.map(market => {
+    const own = judgments.filter(j => marketOf(j) === market);
+    const others = judgments.filter(j => marketOf(j) !== market);
+    const ownEmotions = emotionShares(own);
+    const otherEmotions = emotionShares(others);
+    const otherMean = (assetId: string) => mean(others.filter(j => j.assetId === assetId).map(j => j.score));
+
+    return {
+      market,
+      personas: personas.filter(p => personaMarket(p, markets) === market).length,
+      judgments: own.length,
+      mean: round1(mean(own.map(j => j.score))),
+      stdDev: round1(stdDev(own.map(j => j.score))),
+      avgShare: Math.round(mean(definedValues(own.map(j => j.shareLikelihood)))),
+      assets: assets.map(asset => {
+        const assetJudgments = own.filter(j => j.assetId === asset.id);
+        return {
+          assetId: asset.id,
+          assetName: asset.file.name,
+          mean: round1(mean(assetJudgments.map(j => j.score))),
+          avgShare: Math.round(mean(definedValues(assetJudgments.map(j => j.shareLikelihood))))
+        };
+      }),
+      emotions: Object.entries(ownEmotions)
+        .map(([tag, share]) => ({ tag, share, elsewhere: otherEmotions[tag] || 0 }))
+        .sort((a, b) => (b.share - b.elsewhere) - (a.share - a.elsewhere) || b.share - a.share)
+        .slice(0, 5),
+      quotes: own
+        .map(j => ({
+          personaName: personas.find(p => p.id === j.personaId)?.name || j.personaId,
+          assetName: assets.find(a => a.id === j.assetId)?.file.name || j.assetId,
+          score: j.score,
+          quote: j.quote,
+          gap: round1(j.score - otherMean(j.assetId))
+        }))
+        .sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap))
+        .slice(0, MARKET_QUOTES)
+    };
+  });
+};
+
+// Mandatories count as the share present; a brief without any is scored on message and tone alone
+const briefFitScore = (fit: BriefFit) => {
+  const parts = [fit.messageMatch, fit.toneMatch];
+  if (fit.mandatories.length) parts.push(percentOf(fit.mandatories.filter(m => m.present).length, fit.mandatories.length));
+  return Math.round(mean(parts));
+};
+
+// --- Council Debate ---
+// Judgments stay as the independent first reactions; the debate is a record of how each
+// score moved afterwards. Round 0 is the judgment itself.
+
+const DEBATE_TREND_THRESHOLD = 2; // Change in std. dev. (points) before the council counts as moved
+
+const debateRoundCount = (debate: DebateTurn[]) => Math.max(0, ...debate.map(t => t.round));
+
+const latestDebateTurn = (debate: DebateTurn[], personaId: string, assetId: string, round: number) =>
+  debate
+    .filter(t => t.personaId === personaId && t.assetId === assetId && t.round <= round)
+    .sort((a, b) => b.round - a.round)[0];
+
+// The score a persona held at the end of a round
+const debateScore = (judgment: Judgment, debate: DebateTurn[], round: number) =>
+  latestDebateTurn(debate, judgment.personaId, judgment.assetId, round)?.score ?? judgment.score;
+
+// What one persona sees in a round: everyone else's position after the previous round
+const debatePositions = (judgments: Judgment[], debate: DebateTurn[], personaId: string, assetId: string, round: number) => {
+  const toPosition = (j: Judgment, label: string): DebatePosition => ({
+    label,
+    score: debateScore(j, debate, round - 1),
+    quote: j.quote,
+    pros: j.pros,
+    cons: j.cons,
+    lastReply: latestDebateTurn(debate, j.personaId, assetId, round - 1)?.reply
+  });
+  const assetJudgments = judgments.filter(j => j.assetId === assetId);
+  const own = assetJudgments.find(j => j.personaId === personaId)!;
+  return {
+    own: toPosition(own, 'You'),
+    others: assetJudgments.filter(j => j !== own).map((j, i) => toPosition(j, `Council member ${i + 1}`))
+  };
+};
+
+const computeDebateMovement = (assets: Asset[], judgments: Judgment[], debate: DebateTurn[]): DebateMovement[] => {
+  const roundCount = debateRoundCount(debate);
+  return assets.flatMap(asset => {
+    const assetJudgments = judgments.filter(j => j.assetId === asset.id);
+    if (!assetJudgments.length) return [];
+    const rounds = Array.from({ length: roundCount + 1 }, (_, round) => {
+      const scores = assetJudgments.map(j => debateScore(j, debate, round));
+      return { round, mean: round1(mean(scores)), stdDev: round1(stdDev(scores)) };
+    });
+    const change = rounds[rounds.length - 1].stdDev - rounds[0].stdDev;
+    return [{
+      assetId: asset.id,
+      assetName: asset.file.name,
+      rounds,
+      trend: change <= -DEBATE_TREND_THRESHOLD ? 'converged' : change >= DEBATE_TREND_THRESHOLD ? 'polarized' : 'steady',
+      revisions: debate.filter(t => t.assetId === asset.id && t.score !== t.previousScore).length
+    }];
+  });
+};
+
+const buildDebateInput = (assets: Asset[], personas: Persona[], judgments: Judgment[], debate: DebateTurn[]): DebateSynthesisInput => ({
+  rounds: debateRoundCount(debate),
+  movement: computeDebateMovement(assets, judgments, debate),
+  transcript: [...debate].sort((a, b) => a.round - b.round).map(t => ({
+    round: t.round,
+    assetName: assets.find(a => a.id === t.assetId)?.file.name || t.assetId,
+    personaName: personas.find(p => p.id === t.personaId)?.name || t.personaId,
+    previousScore: t.previousScore,
+    score: t.score,
+    reply: t.reply,
+    reason: t.reason
+  }))
+});
+
+// --- Run Export ---
+// A JSON export carries everything needed to rebuild the report view offline, assets
+// included as data URLs. CSV and Markdown are one-way exports for people, not the app.
+
+const RUN_EXPORT_FORMAT = 'creative-council-run';
+const RUN_EXPORT_VERSION = 1;
+
+interface RunExport {
+  format: typeof RUN_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  run: Omit<SavedRun, 'assets'>;
+  assets: (Omit<StoredAsset, 'blob'> & { dataUrl: string })[];
+}
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const runToJson = async (run: SavedRun): Promise<string> => {
+  const { assets, ...rest } = run;
+  const data: RunExport = {
+    format: RUN_EXPORT_FORMAT,
+    version: RUN_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    run: rest,
+    assets: await Promise.all(assets.map(async ({ blob, ...meta }) => ({ ...meta, dataUrl: await blobToDataUrl(blob) })))
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const runFromJson = async (text: string): Promise<SavedRun> => {
+  const data = JSON.parse(text) as RunExport;
+  if (data.format !== RUN_EXPORT_FORMAT || !data.run?.brandProfile) {
+    throw new Error('This file is not a Creative Council run export.');
+  }
+  if (data.version > RUN_EXPORT_VERSION) {
+    throw new Error(`This export was made by a newer version (v${data.version}).`);
+  }
+  const assets = await Promise.all(data.assets.map(async ({ dataUrl, ...meta }) => ({
+    ...meta,
+    blob: await (await fetch(dataUrl)).blob()
+  })));
+  return { ...data.run, brandProfile: withBrandDefaults(data.run.brandProfile), comparisons: data.run.comparisons || [], assets };
+};
+
+const JUDGMENT_CSV_COLUMNS = [
+  'personaId', 'personaName', 'age', 'generation', 'gender', 'occupation', 'location', 'locationType',
+  'assetId', 'assetName', 'variant', 'score', 'emotionalIntensity', 'shareLikelihood', 'trustPerception',
+  'emotionalTags', 'pros', 'cons', 'quote', 'reactionLanguage', 'originalPros', 'originalCons', 'originalQuote', 'verdict', 'timecodedReactions', 'sampleScores',
+  'preferredVariant', 'preferenceMargin', 'preferenceReason'
+];
+
+// One row per persona per asset; head-to-head picks repeat on each of that persona's rows
+const judgmentsToCsv = (state: AppState) => toCsv([
+  JUDGMENT_CSV_COLUMNS,
+  ...state.judgments.map(j => {
+    const persona = state.personas.find(p => p.id === j.personaId);
+    const asset = state.assets.find(a => a.id === j.assetId);
+    const comparison = state.comparisons.find(c => c.personaId === j.personaId);
+    return [
+      j.personaId,
+      persona?.name || '',
+      persona ? String(persona.age) : '',
+      persona ? generationOf(persona.age) : '',
+      persona?.gender || '',
+      persona?.occupation || '',
+      persona?.location || '',
+      persona?.locationType || '',
+      j.assetId,
+      asset?.file.name || '',
+      asset?.variant || '',
+      String(j.score),
+      j.emotionalIntensity?.toString() ?? '',
+      j.shareLikelihood?.toString() ?? '',
+      j.trustPerception || '',
+      (j.emotionalTags || []).join('; '),
+      j.pros.join('; '),
+      j.cons.join('; '),
+      j.quote,
+      j.original?.language || '',
+      j.original?.pros.join('; ') || '',
+      j.original?.cons.join('; ') || '',
+      j.original?.quote || '',
+      j.verdict,
+      (j.timecodedReactions || []).map(r => `${r.time} ${r.reaction}`).join('; '),
+      (j.samples || []).map(s => s.score).join('; '),
+      comparison?.preferredVariant || '',
+      comparison?.margin?.toString() ?? '',
+      comparison?.reason || ''
+    ];
+  })
+]);
+
+const markdownCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const markdownTable = (header: string[], rows: (string | number)[][]) => [
+  `| ${header.map(markdownCell).join(' | ')} |`,
+  `| ${header.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+].join('\n');
+
+const runToMarkdown = (state: AppState) => {
+  const brand = state.brandProfile!;
+  const stats = computeCouncilStats(state.assets, state.personas, state.judgments);
+  const personaName = (id: string) => state.personas.find(p => p.id === id)?.name || id;
+  const lines: string[] = [
+    `# ${brand.name} — Creative Council Report`,
+    '',
+    `- URL: ${state.url}`,
+    `- ${state.markets.length > 1 ? 'Markets' : 'Market'}: ${state.markets.join(', ')}`,
+    `- Date: ${new Date(state.runStartedAt || Date.now()).toLocaleString()}`,
+    ...(state.runSettings ? [`- Model: ${PROVIDER_LABELS[state.runSettings.provider]} · ${describeRunModels(state.runSettings)}`] : []),
+    ...(state.runSettings && describeCustomPrompts(state.runSettings) ? [`- Custom prompts: ${describeCustomPrompts(state.runSettings)}`] : []),
+    '',
+    '## Brand Profile',
+    '',
+    `- Category: ${brand.category}`,
+    `- Tone: ${brand.tone.join(', ')}`,
+    `- Target audience: ${brand.targetAudience}`,
+    `- Competitors: ${(brand.competitors || []).join(', ') || 'N/A'}`,
+    `- USPs: ${(brand.uniqueSellingPropositions || []).join('; ') || 'N/A'}`,
+    '',
+    '## The Council',
+    '',
+    markdownTable(
+      ['Name', 'Age', 'Gender', 'Occupation', 'Location'],
+      state.personas.map(p => [p.name, p.age, p.gender || '', p.occupation, p.location || ''])
+    ),
+    '',
+    '## Statistics',
+    '',
+    markdownTable(['Metric', 'Value'], [
+      ['Mean score', stats.mean],
+      ['Median score', stats.median],
+      ['Std. deviation', stats.stdDev],
+      ['Avg. emotional intensity', `${stats.avgIntensity}/10`],
+      ['Avg. share likelihood', `${stats.avgShare}%`],
+      ['Consensus index', `${stats.consensusIndex}%`],
+      ['Polarization index', `${stats.polarizationIndex}%`],
+      [`First impression within ${FAST_IMPRESSION_SECONDS}s`, stats.fastImpressionShare === null ? 'n/a' : `${stats.fastImpressionShare}%`]
+    ]),
+    '',
+    markdownTable(['Asset', 'Mean', 'Median', 'Std. Dev.', 'Top Emotion'],
+      stats.assets.map(a => [a.assetName, a.mean, a.median, a.stdDev, a.topEmotion || ''])),
+    '',
+    markdownTable(['Emotion', 'Count', 'Avg. Intensity'], stats.emotions.slice(0, 8).map(e => [e.tag, e.count, e.avgIntensity])),
+    '',
+    ...(stats.trust.length ? [markdownTable(['Trust Perception', 'Judgments', 'Share'], stats.trust.map(t => [t.label, t.count, `${t.share}%`])), ''] : []),
+    markdownTable(['Most Repeated Pros', 'Count'], stats.topPros.map(p => [p.text, p.count])),
+    '',
+    markdownTable(['Most Repeated Cons', 'Count'], stats.topCons.map(p => [p.text, p.count])),
+    ''
+  ];
+
+  if (stats.sampling) {
+    const sampling = stats.sampling;
+    lines.push(
+      '## Repeated Sampling',
+      '',
+      `Each persona judged every asset up to ${sampling.samplesPerPersona} times. Values are means with 95% confidence intervals; average within-persona score spread is ±${sampling.noise}.`,
+      '',
+      markdownTable(['Metric', 'Council Mean (95% CI)'], [
+        ['Score', formatInterval(sampling.score)],
+        ['Emotional intensity', formatInterval(sampling.intensity)],
+        ['Share likelihood', formatInterval(sampling.share, '%')]
+      ]),
+      '',
+      markdownTable(['Persona', 'Asset', 'Samples', 'Score', 'Std. Dev.', 'Intensity', 'Share', 'Stable'],
+        computeSampledJudgments(state.assets, state.personas, state.judgments).map(r => [
+          r.personaName, r.assetName, r.samples, formatInterval(r.score), r.score.stdDev,
+          formatInterval(r.intensity), formatInterval(r.share, '%'), r.unstable ? 'Unstable' : 'Yes'
+        ])),
+      ''
+    );
+  }
+
+  if (state.brief) {
+    const brief = state.brief;
+    lines.push(
+      '## Creative Brief',
+      '',
+      `- Key message: ${brief.keyMessage}`,
+      `- Objectives: ${brief.objectives.join('; ')}`,
+      `- Mandatories: ${brief.mandatories.join('; ') || 'none listed'}`,
+      `- Target: ${brief.target}`,
+      `- Intended tone: ${brief.tone.join(', ') || 'brand tone'}`,
+      ''
+    );
+    state.assets.forEach(asset => {
+      const fit = state.briefFits.find(f => f.assetId === asset.id);
+      if (!fit) return;
+      lines.push(
+        `### Brief Fit — ${asset.file.name}: ${briefFitScore(fit)}/100`,
+        '',
+        `> ${fit.takeaway}`,
+        '',
+        `- Message match: ${fit.messageMatch}/100`,
+        `- Tone match: ${fit.toneMatch}/100 — ${fit.toneNotes}`,
+        ...fit.mandatories.map(m => `- [${m.present ? 'x' : ' '}] ${m.item}${m.note ? ` — ${m.note}` : ''}`),
+        ''
+      );
+    });
+  }
+
+  if (state.paletteChecks.length) {
+    lines.push('## Palette Compliance', '', `Brand palette: ${(brand.brandColors || []).join(', ')}`, '', markdownTable(
+      ['Asset', 'On Brand', 'Dominant Colors', 'Off-Brand Callouts'],
+      state.paletteChecks.map(c => [
+        state.assets.find(a => a.id === c.assetId)?.file.name || c.assetId,
+        `${c.score}%`,
+        c.swatches.map(s => `${s.hex} ${s.share}%`).join(', '),
+        c.offBrand.map(s => `${s.hex} (${s.share}%, ΔE ${s.deltaE} from ${s.nearest})`).join('; ') || 'None'
+      ])
+    ), '');
+  }
+
+  const marketStats = computeMarketStats(state.assets, state.personas, state.judgments, state.markets);
+  if (marketStats.length && state.judgments.length) {
+    lines.push('## Market Comparison', '', markdownTable(
+      ['Market', 'Personas', 'Mean', 'Std. Dev.', 'Share', ...(state.assets.length > 1 ? state.assets.map(a => a.file.name) : [])],
+      marketStats.map(m => [m.market, m.personas, m.mean, m.stdDev, `${m.avgShare}%`, ...(state.assets.length > 1 ? m.assets.map(a => a.mean) : [])])
+    ), '');
+    marketStats.forEach(m => {
+      lines.push(`### ${m.market}`, '', `Over-indexes on: ${m.emotions.filter(e => e.share > e.elsewhere).map(e => `${e.tag} (${e.share}% vs ${e.elsewhere}%)`).join(', ') || 'none'}`, '');
+      m.quotes.forEach(q => lines.push(`- "${q.quote}" — ${q.personaName}, ${q.assetName}, ${q.score} (${q.gap > 0 ? '+' : ''}${q.gap} vs other markets)`));
+      lines.push('');
+    });
+  }
+
+  if (state.comparisons.length) {
+    lines.push('## Head-to-Head', '', markdownTable(
+      ['Persona', 'Pick', 'Margin', 'Reason'],
+      state.comparisons.map(c => [personaName(c.personaId), c.preferredVariant, `${c.margin}/10`, c.reason])
+    ), '');
+  }
+
+  if (state.debate.length) {
+    lines.push('## Council Debate', '', markdownTable(
+      ['Asset', 'Trend', 'Mean', 'Std. Dev.', 'Revisions'],
+      computeDebateMovement(state.assets, state.judgments, state.debate).map(m => {
+        const first = m.rounds[0];
+        const last = m.rounds[m.rounds.length - 1];
+        return [m.assetName, DEBATE_TREND_LABELS[m.trend], `${first.mean} → ${last.mean}`, `${first.stdDev} → ${last.stdDev}`, m.revisions];
+      })
+    ), '');
+    buildDebateInput(state.assets, state.personas, state.judgments, state.debate).transcript.forEach(t => {
+      lines.push(`- **Round ${t.round} · ${t.personaName} (${t.assetName}, ${t.previousScore} → ${t.score}):** ${t.reply} _${t.reason}_`);
+    });
+    lines.push('');
+  }
+
+  state.assets.forEach((asset, i) => {
+    const assetJudgments = state.judgments.filter(j => j.assetId === asset.id);
+    if (!assetJudgments.length) return;
+    lines.push(`## Execution ${i + 1} — ${asset.file.name}`, '');
+    if (asset.keyframes?.length) lines.push(`_Judged from ${asset.keyframes.length} keyframes at ${asset.keyframes.map(formatTimecode).join(', ')}._`, '');
+    assetJudgments.forEach(j => {
+      lines.push(
+        `### ${personaName(j.personaId)} — ${j.score}/100`,
+        '',
+        ...(j.original ? [`> ${j.original.quote}`, '>', `> _English:_ ${j.quote}`] : [`> ${j.quote}`]),
+        '',
+        `**Verdict:** ${j.verdict}`,
+        '',
+        ...(j.original ? [
+          `- Strengths (${j.original.language}): ${j.original.pros.join('; ')}`,
+          `- Weaknesses (${j.original.language}): ${j.original.cons.join('; ')}`
+        ] : []),
+        `- Strengths${j.original ? ' (English)' : ''}: ${j.pros.join('; ')}`,
+        `- Weaknesses${j.original ? ' (English)' : ''}: ${j.cons.join('; ')}`,
+        ...(j.emotionalTags?.length ? [`- Emotions: ${j.emotionalTags.join(', ')}`] : []),
+        ...(j.timecodedReactions?.length ? [`- Moments: ${j.timecodedReactions.map(r => `${r.time} ${r.reaction}`).join('; ')}`] : []),
+        ''
+      );
+      const interview = state.includeInterviews ? interviewOf(state, j.personaId, j.assetId) : [];
+      if (interview.length) {
+        lines.push('**Interview**', '', ...interview.map(m => `- **${m.role === 'user' ? 'Researcher' : personaName(j.personaId)}:** ${m.text}`), '');
+      }
+    });
+  });
+
+  if (state.finalReport) lines.push('## Synthesis', '', state.finalReport, '');
+
+  if (state.usage.length) {
+    const total = totalUsage(state.usage);
+    const usageRow = (label: string, g: UsageTotals) => [label, g.calls, g.inputTokens, g.outputTokens, formatCost(g.cost)];
+    lines.push('## Token Usage and Cost', '', markdownTable(
+      ['Stage', 'Calls', 'Input Tokens', 'Output Tokens', 'Cost'],
+      [...usageBy(state.usage, r => r.stage).map(g => usageRow(usageLabel(g.key as UsageRecord['stage']), g)), usageRow('Total', total)]
+    ), '', markdownTable(
+      ['Persona', 'Calls', 'Input Tokens', 'Output Tokens', 'Cost'],
+      usageBy(state.usage, r => r.personaId).map(g => usageRow(personaName(g.key), g))
+    ), '');
+  }
+  return lines.join('\n');
+};
+
+// --- Icons (Cleaned up for minimalist theme) ---
+
+const Icons = {
+  Research: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>,
+  Persona: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path><circle cx="9" cy="7" r="4"></circle><path d="M23 21v-2a4 4 0 0 0-3-3.87"></path><path d="M16 3.13a4 4 0 0 1 0 7.75"></path></svg>,
+  Judge: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z"></path><polyline points="3.27 6.96 12 12.01 20.73 6.96"></polyline><line x1="12" y1="22.08" x2="12" y2="12"></line></svg>,
+  Report: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="16" y1="13" x2="8" y2="13"></line><line x1="16" y1="17" x2="8" y2="17"></line><polyline points="10 9 9 9 8 9"></polyline></svg>,
+  Check: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>,
+  Upload: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>,
+  Trash: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>,
+  Council: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2L2 7l10 5 10-5-10-5zm0 9l2.5-1.25L12 8.5l-2.5 1.25L12 11zm0 2.5l-5-2.5-5 2.5L12 22l10-8.5-5-2.5-5 2.5z"/></svg>,
+  ChevronDown: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="6 9 12 15 18 9"></polyline></svg>,
+  ChevronUp: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="18 15 12 9 6 15"></polyline></svg>,
+  Terminal: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="4 17 10 11 4 5"></polyline><line x1="12" y1="19" x2="20" y2="19"></line></svg>,
+  Download: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>,
+  Video: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polygon points="23 7 16 12 23 17 23 7"></polygon><rect x="1" y="5" width="15" height="14" rx="2" ry="2"></rect></svg>,
+  Expand: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 3 21 3 21 9"></polyline><polyline points="9 21 3 21 3 15"></polyline><line x1="21" y1="3" x2="14" y2="10"></line><line x1="3" y1="21" x2="10" y2="14"></line></svg>,
+  Prompt: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"></path><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path></svg>,
+  History: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path><polyline points="3 3 3 8 8 8"></polyline><polyline points="12 7 12 12 15 15"></polyline></svg>,
+  Debate: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M14 9a2 2 0 0 1-2 2H6l-4 4V4a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2z"></path><path d="M18 9h2a2 2 0 0 1 2 2v11l-4-4h-6a2 2 0 0 1-2-2v-1"></path></svg>,
+  Gear: () => <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"></circle><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"></path></svg>
+};
+
+// --- Components ---
+
+const ProcessingVisualizer: FC<{ status: string }> = ({ status }) => {
+  return (
+    <div className="processing-vis-container">
+      <div className="vis-blob vis-blob-1"></div>
+      <div className="vis-blob vis-blob-2"></div>
+      <div className="vis-blob vis-blob-3"></div>
+      <div className="vis-glass-overlay"></div>
+      <div className="vis-content">
+        <Icons.Council />
+        <h3 className="vis-text">{status.replace(/_/g, ' ')}</h3>
+        <div className="vis-loading-dots">
+            <span>.</span><span>.</span><span>.</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const StatusStep: FC<{ 
+  label: string; 
+  active: boolean; 
+  done: boolean; 
+  failed?: boolean;
+  icon: React.ReactNode 
+}> = ({ label, active, done, failed, icon }) => (
+  <div className={`status-item ${active ? 'active' : ''} ${done ? 'done' : ''} ${failed ? 'failed' : ''}`}>
+    <div className="status-icon">
+      {done ? <Icons.Check /> : icon}
+    </div>
+    <div className="status-content">
+      <h4>{label}</h4>
+    </div>
+  </div>
+);
+
+const ProgressBar: FC<{ progress: number }> = ({ progress }) => (
+  <div className="progress-container">
+    <div className="progress-bar-bg">
+      <div className="progress-bar-fill" style={{ width: `${progress}%` }}></div>
+    </div>
+    <span className="progress-text">{progress.toFixed(0)}% PROCESSED</span>
+  </div>
+);
+
+// Defines a market beyond the built-in list; the cultural notes steer recruitment
+const CustomMarketForm: FC<{ taken: string[]; onAdd: (market: Market) => void }> = ({ taken, onAdd }) => {
+  const empty = { name: '', region: '', language: '', culturalNotes: '' };
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(empty);
+  const name = draft.name.trim();
+  const duplicate = taken.some(t => t.toLowerCase() === name.toLowerCase());
+
+  if (!open) return <button className="link-btn" onClick={() => setOpen(true)}>+ Define a custom market</button>;
+
+  const save = () => {
+    onAdd({
+      name,
+      region: draft.region.trim(),
+      language: draft.language.trim(),
+      culturalNotes: draft.culturalNotes.trim() || undefined,
+      custom: true
+    });
+    setDraft(empty);
+    setOpen(false);
+  };
+
+  return (
+    <div className="custom-market-form">
+      <input className="text-input" placeholder="Market, e.g. Quebec" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+      <div className="custom-market-row">
+        <input className="text-input" placeholder="Region" value={draft.region} onChange={e => setDraft({ ...draft, region: e.target.value })} />
+        <input className="text-input" placeholder="Language" value={draft.language} onChange={e => setDraft({ ...draft, language: e.target.value })} />
+      </div>
+      <textarea
+        className="text-input"
+        rows={3}
+        placeholder="Cultural notes: values, humour, taboos, media habits..."
+        value={draft.culturalNotes}
+        onChange={e => setDraft({ ...draft, culturalNotes: e.target.value })}
+      />
+      {duplicate && <p className="input-hint error">A market called {name} already exists.</p>}
+      <div className="custom-market-actions">
+        <button className="secondary-btn" onClick={() => { setDraft(empty); setOpen(false); }}>Cancel</button>
+        <button className="secondary-btn primary" onClick={save} disabled={!name || !draft.language.trim() || duplicate}>Add Market</button>
+      </div>
+    </div>
+  );
+};
+
+const CustomSelect: FC<{
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+  disabled: boolean;
+}> = ({ value, options, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className={`custom-select-container ${disabled ? 'disabled' : ''}`} ref={containerRef}>
+      <div 
+        className="custom-select-trigger text-input" 
+        onClick={() => !disabled && setIsOpen(!isOpen)}
+      >
+        <span>{value}</span>
+        <Icons.ChevronDown />
+      </div>
+      {isOpen && (
+        <div className="custom-select-options">
+          {options.map(option => (
+            <div 
+              key={option} 
+              className={`custom-option ${option === value ? 'selected' : ''}`}
+              onClick={() => {
+                onChange(option);
+                setIsOpen(false);
+              }}
+            >
+              {option}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Markers and a density strip along the video's duration; static when there is no onSeek
+const AttentionTimeline: FC<{
+  reactions: TimelineReaction[];
+  duration: number;
+  currentTime?: number;
+  onSeek?: (seconds: number) => void;
+}> = ({ reactions, duration, currentTime, onSeek }) => {
+  const density = useMemo(() => timelineDensity(reactions, duration), [reactions, duration]);
+  const maxDensity = Math.max(1, ...density);
+  const position = (seconds: number) => `${Math.min(100, (seconds / duration) * 100)}%`;
+
+  if (!reactions.length || duration <= 0) return null;
+
+  return (
+    <div className="attention-timeline">
+      <div className="attention-density">
+        {density.map((count, i) => (
+          <div key={i} className="attention-density-bin" style={{ opacity: count ? 0.2 + 0.8 * (count / maxDensity) : 0.05 }} />
+        ))}
+      </div>
+      <div className="attention-track">
+        {reactions.map((r, i) => (
+          <button
+            key={i}
+            className="attention-marker"
+            data-seconds={r.seconds}
+            style={{ left: position(r.seconds) }}
+            title={`${r.time} — ${r.personaName}: ${r.reaction}`}
+            onClick={onSeek ? () => onSeek(r.seconds) : undefined}
+            disabled={!onSeek}
+          />
+        ))}
+        {currentTime !== undefined && <div className="attention-playhead" style={{ left: position(currentTime) }} />}
+      </div>
+      <div className="attention-scale">
+        <span>0:00</span>
+        <span>{formatTimecode(duration)}</span>
+      </div>
+    </div>
+  );
+};
+
+const MediaLightbox: FC<{ asset: Asset; reactions?: TimelineReaction[]; onClose: () => void }> = ({ asset, reactions = [], onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+  };
+
+  // Reactions past the end (the model guessed a timestamp) are pinned to the last frame
+  const timelineDuration = Math.max(duration, ...reactions.map(r => r.seconds));
+
+  return (
+    <div className="lightbox-overlay" onClick={onClose}>
+      <button className="lightbox-close" onClick={onClose}>×</button>
+      <div className="lightbox-content" onClick={e => e.stopPropagation()}>
+         {asset.mimeType.startsWith('video') ? (
+           <div className="lightbox-video">
+             <video
+               ref={videoRef}
+               src={asset.previewUrl}
+               controls
+               autoPlay
+               className="lightbox-media"
+               onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+               onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+             />
+             {reactions.length > 0 && duration > 0 && (
+               <div className="lightbox-timeline">
+                 <div className="lightbox-timeline-header">
+                   <span>Attention Timeline</span>
+                   <span>{reactions.length} reaction{reactions.length > 1 ? 's' : ''}</span>
+                 </div>
+                 <AttentionTimeline reactions={reactions} duration={timelineDuration} currentTime={currentTime} onSeek={seek} />
+                 <ul className="attention-list">
+                   {reactions.map((r, i) => (
+                     <li key={i} className={Math.abs(r.seconds - currentTime) < 1 ? 'current' : ''}>
+                       <button className="attention-time" onClick={() => seek(r.seconds)}>{formatTimecode(r.seconds)}</button>
+                       <strong>{r.personaName}</strong> {r.reaction}
+                     </li>
+                   ))}
+                 </ul>
+               </div>
+             )}
+           </div>
+         ) : (
+           <img src={asset.previewUrl} className="lightbox-media" alt="Full view" />
+         )}
+      </div>
+    </div>
+  );
+};
+
+// A mean marker with whiskers across the 95% confidence interval, drawn inside a 0–max track
+const ErrorBar: FC<{ interval: MetricInterval; max: number }> = ({ interval, max }) => (
+  <>
+    <span className="error-bar-range" style={{ left: `${(interval.low / max) * 100}%`, width: `${((interval.high - interval.low) / max) * 100}%` }}></span>
+    <span className="error-bar-mean" style={{ left: `${(interval.mean / max) * 100}%` }}></span>
+  </>
+);
+
+const AnalyticsDashboard: FC<{ judgments: Judgment[]; personas: Persona[]; assets: Asset[] }> = ({ judgments, personas, assets }) => {
+  const analytics = useMemo(() => {
+    if (!judgments.length) return null;
+
+    const stats = computeCouncilStats(assets, personas, judgments);
+    const avgScore = Math.round(stats.mean);
+    const avgIntensity = stats.avgIntensity.toFixed(1);
+    const avgShare = stats.avgShare;
+
+    // Emotions
+    const sortedEmotions = stats.emotions
+      .slice(0, 6) // Top 6
+      .map(e => [e.tag, e.count] as const);
+
+    const maxEmotionCount = sortedEmotions.length > 0 ? sortedEmotions[0][1] : 1;
+
+    // Score Circle Calculation
+    // circumference = 2 * pi * r. Let r = 40 (viewbox is 100x100 approx)
+    const radius = 40;
+    const circumference = 2 * Math.PI * radius;
+    const offset = circumference - (avgScore / 100) * circumference;
+
+    // Persona x Asset matrix
+    const assetAverages = assets.map(a => ({
+      assetId: a.id,
+      avg: averageScore(judgments.filter(j => j.assetId === a.id))
+    }));
+    // The same winner the report names
+    const winnerId = stats.winner?.assetId ?? null;
+
+    // A dimension nobody filled in (e.g. older saved personas) has nothing to compare
+    const demographics = (Object.keys(DEMOGRAPHIC_LABELS) as DemographicDimension[])
+      .map(dimension => ({ dimension, slices: stats.demographics[dimension] }))
+      .filter(d => d.slices.some(s => s.slice !== 'Unspecified'));
+
+    // Repeated samples: least stable first, so the flagged personas lead the list
+    const sampling = stats.sampling;
+    const sampled = computeSampledJudgments(assets, personas, judgments).sort((a, b) => b.score.stdDev - a.score.stdDev);
+
+    return { avgScore, avgIntensity, avgShare, sortedEmotions, total: judgments.length, circumference, offset, maxEmotionCount, assetAverages, winnerId, demographics, sampling, sampled };
+  }, [judgments, personas, assets]);
+
+  if (!analytics) return null;
+
+  return (
+    <div className="analytics-dashboard">
+      <div className="analytics-grid">
+        {/* Score Gauge */}
+        <div className="analytics-card score-gauge-card">
+            <h3 className="analytics-title">Council Score</h3>
+            <div className="gauge-container">
+                <svg viewBox="0 0 100 100" className="score-svg">
+                    <circle cx="50" cy="50" r="40" className="score-bg" />
+                    <circle 
+                        cx="50" cy="50" r="40" 
+                        className="score-fill" 
+                        strokeDasharray={analytics.circumference} 
+                        strokeDashoffset={analytics.offset}
+                        transform="rotate(-90 50 50)"
+                    />
+                </svg>
+                <div className="gauge-value">{analytics.avgScore}</div>
+            </div>
+            {analytics.sampling && (
+                <div className="gauge-ci">95% CI {analytics.sampling.score.low}–{analytics.sampling.score.high}</div>
+            )}
+        </div>
+
+        {/* KPIs */}
+        <div className="analytics-col">
+            <div className="analytics-card kpi-card">
+                <div className="kpi-label">Share Likelihood</div>
+                <div className="kpi-value">{analytics.avgShare}%</div>
+                <div className="kpi-bar-bg">
+                    <div className="kpi-bar-fill" style={{width: `${analytics.avgShare}%`}}></div>
+                    {analytics.sampling?.share && <ErrorBar interval={analytics.sampling.share} max={100} />}
+                </div>
+            </div>
+            <div className="analytics-card kpi-card">
+                <div className="kpi-label">Avg. Intensity</div>
+                <div className="kpi-value">{analytics.avgIntensity}<span style={{fontSize: '0.6em', color:'#666'}}>/10</span></div>
+                 <div className="kpi-bar-bg">
+                    <div className="kpi-bar-fill" style={{width: `${(parseFloat(analytics.avgIntensity) / 10) * 100}%`}}></div>
+                    {analytics.sampling?.intensity && <ErrorBar interval={analytics.sampling.intensity} max={10} />}
+                </div>
+            </div>
+        </div>
+
+        {/* Emotions Chart */}
+        <div className="analytics-card emotion-chart-card">
+            <h3 className="analytics-title">Dominant Emotions</h3>
+            <div className="emotion-bars">
+                {analytics.sortedEmotions.map(([tag, count]) => (
+                    <div key={tag} className="emotion-row" title={`${tag}: ${count}`}>
+                        <span className="emotion-label">{tag}</span>
+                        <div className="emotion-track">
+                             <div 
+                                className="emotion-fill" 
+                                style={{width: `${(count / analytics.maxEmotionCount) * 100}%`}}
+                             ></div>
+                        </div>
+                        <span className="emotion-count">{count}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+
+        {/* Demographic Slices */}
+        {analytics.demographics.map(({ dimension, slices }) => (
+            <div key={dimension} className="analytics-card slice-card">
+                <h3 className="analytics-title">By {DEMOGRAPHIC_LABELS[dimension]}</h3>
+                <div className="emotion-bars">
+                    {slices.map(s => (
+                        <div key={s.slice} className="emotion-row slice-row" title={`${s.personas} persona(s), ${s.judgments} judgment(s)`}>
+                            <div className="slice-label">
+                                <span className="emotion-label">{s.slice}</span>
+                                <span className="slice-emotion">{s.topEmotion || '—'}</span>
+                            </div>
+                            <div className="emotion-track">
+                                <div className="emotion-fill" style={{width: `${s.mean}%`}}></div>
+                            </div>
+                            <span className="slice-score">{Math.round(s.mean)}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ))}
+
+        {/* Repeated sampling: per-persona intervals */}
+        {analytics.sampling && (
+            <div className="analytics-card score-matrix-card sampling-card">
+                <h3 className="analytics-title">Score Stability ({analytics.sampling.samplesPerPersona} samples)</h3>
+                <p className="sampling-note">
+                    Whiskers show the 95% confidence interval around each mean. Average spread within a persona is ±{analytics.sampling.noise} points;
+                    above ±{UNSTABLE_SCORE_SD} a persona is flagged as unstable.
+                </p>
+                <div className="interval-rows">
+                    <div className="interval-row council">
+                        <span className="interval-label">Council</span>
+                        <div className="interval-track">
+                            <ErrorBar interval={analytics.sampling.score} max={100} />
+                        </div>
+                        <span className="interval-value">{formatInterval(analytics.sampling.score)}</span>
+                    </div>
+                    {analytics.sampled.map(r => (
+                        <div key={`${r.personaId}-${r.assetId}`} className={`interval-row ${r.unstable ? 'unstable' : ''}`} title={`${r.samples} samples, std. dev. ${r.score.stdDev}`}>
+                            <span className="interval-label">
+                                {r.personaName}
+                                {assets.length > 1 && <span className="interval-asset"> · #{assets.findIndex(a => a.id === r.assetId) + 1}</span>}
+                                {r.unstable && <span className="unstable-flag">Unstable</span>}
+                            </span>
+                            <div className="interval-track">
+                                <ErrorBar interval={r.score} max={100} />
+                            </div>
+                            <span className="interval-value">{formatInterval(r.score)}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {/* Persona x Asset Heatmap */}
+        {personas.length > 0 && assets.length > 0 && (
+            <div className="analytics-card score-matrix-card">
+                <h3 className="analytics-title">Persona × Asset Scores</h3>
+                <div className="score-matrix-scroll">
+                    <table className="score-matrix">
+                        <thead>
+                            <tr>
+                                <th></th>
+                                {assets.map((a, i) => (
+                                    <th key={a.id} title={a.file.name} className={a.id === analytics.winnerId ? 'winner' : ''}>
+                                        <span className="matrix-asset-index">#{i + 1}</span>
+                                        <span className="matrix-asset-name">{a.file.name}</span>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {personas.map(p => (
+                                <tr key={p.id}>
+                                    <th>{p.name}</th>
+                                    {assets.map(a => {
+                                        const j = findJudgment(judgments, p.id, a.id);
+                                        const sampled = analytics.sampled.find(r => r.personaId === p.id && r.assetId === a.id);
+                                        return (
+                                            <td
+                                                key={a.id}
+                                                className={`matrix-cell ${sampled?.unstable ? 'unstable' : ''}`}
+                                                style={{ backgroundColor: j ? `rgba(250, 204, 21, ${(j.score / 100).toFixed(2)})` : 'transparent' }}
+                                                title={j ? `${j.verdict}${sampled ? ` (95% CI ${sampled.score.low}–${sampled.score.high}${sampled.unstable ? ', unstable' : ''})` : ''}` : 'No verdict'}
+                                            >
+                                                {j ? j.score : '–'}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot>
+                            <tr>
+                                <th>Average</th>
+                                {analytics.assetAverages.map(a => (
+                                    <td key={a.assetId} className={a.assetId === analytics.winnerId ? 'winner' : ''}>{a.avg}</td>
+                                ))}
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const ComparisonDashboard: FC<{ comparisons: Comparison[]; personas: Persona[]; assets: Asset[] }> = ({ comparisons, personas, assets }) => {
+  const groups = useMemo(() => getVariantGroups(assets), [assets]);
+  const stats = useMemo(() => computeComparisonStats(comparisons, groups.map(g => g.label)), [comparisons, groups]);
+
+  if (!comparisons.length) return null;
+
+  return (
+    <div className="analytics-dashboard comparison-dashboard">
+      <div className="analytics-grid">
+        {/* Win Rate per Variant */}
+        <div className="analytics-card">
+            <h3 className="analytics-title">Head-to-Head Win Rate</h3>
+            <div className="emotion-bars">
+                {stats.variants.map(v => (
+                    <div key={v.label} className="emotion-row">
+                        <span className="variant-badge static">{v.label}</span>
+                        <div className="emotion-track">
+                            <div className="emotion-fill" style={{width: `${v.winRate}%`}}></div>
+                        </div>
+                        <span className="variant-win-rate">{v.winRate}%</span>
+                    </div>
+                ))}
+            </div>
+            <div className="variant-legend">
+                {groups.map(g => (
+                    <div key={g.label}><strong>{g.label}</strong> {g.assets.map(a => a.file.name).join(', ')}</div>
+                ))}
+            </div>
+        </div>
+
+        {/* Win Rate by Emotion */}
+        <div className="analytics-card emotion-chart-card">
+            <h3 className="analytics-title">Wins by Emotion</h3>
+            <div className="emotion-bars">
+                {stats.emotions.map(e => (
+                    <div key={e.tag} className="emotion-row">
+                        <span className="emotion-label">{e.tag}</span>
+                        <div className="emotion-track variant-split-track">
+                            {stats.variants.map(v => (e.wins[v.label] || 0) > 0 && (
+                                <div
+                                    key={v.label}
+                                    className={`variant-split-fill variant-${v.label}`}
+                                    style={{width: `${((e.wins[v.label] || 0) / e.total) * 100}%`}}
+                                    title={`${v.label}: ${e.wins[v.label]}`}
+                                >
+                                    {v.label}
+                                </div>
+                            ))}
+                        </div>
+                        <span className="emotion-count">{e.total}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+
+        {/* Preference by Persona */}
+        <div className="analytics-card score-matrix-card">
+            <h3 className="analytics-title">Preference by Persona</h3>
+            <table className="comparison-table">
+                <thead>
+                    <tr>
+                        <th>Persona</th>
+                        <th>Pick</th>
+                        <th>Margin</th>
+                        <th>Reason</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {comparisons.map(c => (
+                        <tr key={c.personaId}>
+                            <td>{personas.find(p => p.id === c.personaId)?.name || c.personaId}</td>
+                            <td><span className="variant-badge static">{c.preferredVariant}</span></td>
+                            <td>{c.margin}/10</td>
+                            <td>{c.reason}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const DEBATE_TREND_LABELS: Record<DebateMovement['trend'], string> = {
+  converged: 'Converged',
+  polarized: 'Polarized',
+  steady: 'Held steady'
+};
+
+// Per-persona score lines across rounds, with the council mean and a ±1 std. dev. band
+const DebateChart: FC<{ movement: DebateMovement; series: { name: string; scores: number[] }[] }> = ({ movement, series }) => {
+  const width = 320;
+  const height = 160;
+  const pad = { left: 28, right: 12, top: 10, bottom: 22 };
+  const steps = Math.max(1, movement.rounds.length - 1);
+  const x = (round: number) => pad.left + (round / steps) * (width - pad.left - pad.right);
+  const y = (score: number) => pad.top + (1 - score / 100) * (height - pad.top - pad.bottom);
+  const line = (values: number[]) => values.map((v, i) => `${x(i)},${y(v)}`).join(' ');
+  const band = [
+    ...movement.rounds.map(r => `${x(r.round)},${y(Math.min(100, r.mean + r.stdDev))}`),
+    ...[...movement.rounds].reverse().map(r => `${x(r.round)},${y(Math.max(0, r.mean - r.stdDev))}`)
+  ].join(' ');
+
+  return (
+    <svg className="debate-chart" viewBox={`0 0 ${width} ${height}`} role="img" aria-label={`Score movement for ${movement.assetName}`}>
+      {[0, 50, 100].map(v => (
+        <g key={v}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(v)} y2={y(v)} className="debate-grid" />
+          <text x={pad.left - 6} y={y(v)} className="debate-axis" textAnchor="end" dominantBaseline="middle">{v}</text>
+        </g>
+      ))}
+      {movement.rounds.map(r => (
+        <text key={r.round} x={x(r.round)} y={height - 6} className="debate-axis" textAnchor="middle">{r.round === 0 ? 'Verdict' : `R${r.round}`}</text>
+      ))}
+      <polygon points={band} className="debate-band" />
+      {series.map(s => (
+        <polyline key={s.name} points={line(s.scores)} className="debate-persona-line"><title>{`${s.name}: ${s.scores.join(' → ')}`}</title></polyline>
+      ))}
+      <polyline points={line(movement.rounds.map(r => r.mean))} className="debate-mean-line" />
+    </svg>
+  );
+};
+
+const DebateDashboard: FC<{ judgments: Judgment[]; personas: Persona[]; assets: Asset[]; debate: DebateTurn[] }> = ({ judgments, personas, assets, debate }) => {
+  const movement = useMemo(() => computeDebateMovement(assets, judgments, debate), [assets, judgments, debate]);
+
+  if (!debate.length) return null;
+
+  const personaName = (id: string) => personas.find(p => p.id === id)?.name || id;
+  const roundCount = debateRoundCount(debate);
+
+  return (
+    <div className="analytics-dashboard debate-dashboard">
+      <div className="analytics-grid">
+        {movement.map(m => {
+          const first = m.rounds[0];
+          const last = m.rounds[m.rounds.length - 1];
+          const series = judgments
+            .filter(j => j.assetId === m.assetId)
+            .map(j => ({ name: personaName(j.personaId), scores: m.rounds.map(r => debateScore(j, debate, r.round)) }));
+          return (
+            <div key={m.assetId} className="analytics-card">
+              <h3 className="analytics-title">Debate — {m.assetName}</h3>
+              <DebateChart movement={m} series={series} />
+              <div className={`debate-trend ${m.trend}`}>{DEBATE_TREND_LABELS[m.trend]}</div>
+              <div className="debate-trend-detail">
+                Std. dev. {first.stdDev} → {last.stdDev} · Mean {first.mean} → {last.mean} · {m.revisions} revision{m.revisions === 1 ? '' : 's'}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="analytics-card score-matrix-card">
+          <h3 className="analytics-title">Debate Transcript</h3>
+          {Array.from({ length: roundCount }, (_, i) => i + 1).map(round => (
+            <div key={round} className="debate-round">
+              <h4>Round {round}</h4>
+              {assets.map(asset => debate
+                .filter(t => t.round === round && t.assetId === asset.id)
+                .map(t => (
+                  <div key={`${t.personaId}-${t.assetId}`} className="debate-turn">
+                    <div className="debate-turn-header">
+                      <strong>{personaName(t.personaId)}</strong>
+                      {assets.length > 1 && <span className="debate-turn-asset">{asset.file.name}</span>}
+                      <span className={`debate-score-change ${t.score > t.previousScore ? 'up' : t.score < t.previousScore ? 'down' : ''}`}>
+                        {t.previousScore} → {t.score}
+                      </span>
+                    </div>
+                    <p>{t.reply}</p>
+                    <span className="debate-turn-reason">{t.reason}</span>
+                  </div>
+                )))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BriefFitDashboard: FC<{ briefFits: BriefFit[]; assets: Asset[] }> = ({ briefFits, assets }) => {
+  if (!briefFits.length) return null;
+
+  return (
+    <div className="analytics-dashboard brief-fit-dashboard">
+      <div className="analytics-grid">
+        {assets.map(asset => {
+          const fit = briefFits.find(f => f.assetId === asset.id);
+          if (!fit) return null;
+          const present = fit.mandatories.filter(m => m.present).length;
+          return (
+            <div key={asset.id} className="analytics-card">
+              <h3 className="analytics-title">Brief Fit — {asset.file.name}</h3>
+              <div className="brief-fit-score">{briefFitScore(fit)}<span>/100</span></div>
+              <p className="brief-fit-takeaway">"{fit.takeaway}"</p>
+              <div className="emotion-bars">
+                {[['Message match', fit.messageMatch], ['Tone match', fit.toneMatch], ['Mandatories', percentOf(present, fit.mandatories.length)]].map(([label, value]) => (
+                  <div key={label} className="emotion-row">
+                    <span className="emotion-label">{label}</span>
+                    <div className="emotion-track">
+                      <div className="emotion-fill" style={{width: `${value}%`}}></div>
+                    </div>
+                    <span className="emotion-count">{value}</span>
+                  </div>
+                ))}
+              </div>
+              {fit.mandatories.length > 0 && (
+                <ul className="brief-mandatories">
+                  {fit.mandatories.map((m, i) => (
+                    <li key={i} className={m.present ? 'present' : 'missing'}>
+                      <strong>{m.present ? '✓' : '✗'} {m.item}</strong>
+                      {m.note && <span>{m.note}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {fit.toneNotes && <p className="brief-fit-notes">{fit.toneNotes}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const PaletteCompliance: FC<{ paletteChecks: PaletteCheck[]; assets: Asset[]; brandColors: string[] }> = ({ paletteChecks, assets, brandColors }) => {
+  if (!paletteChecks.length) return null;
+
+  return (
+    <div className="analytics-dashboard palette-dashboard">
+      <div className="analytics-grid">
+        {assets.map(asset => {
+          const check = paletteChecks.find(c => c.assetId === asset.id);
+          if (!check) return null;
+          return (
+            <div key={asset.id} className="analytics-card">
+              <h3 className="analytics-title">Palette — {asset.file.name}</h3>
+              <div className="brief-fit-score">{check.score}<span>% on brand</span></div>
+              <div className="palette-strip">
+                {check.swatches.map(s => (
+                  <div
+                    key={s.hex}
+                    className={`palette-chip ${s.onBrand ? 'on-brand' : s.neutral ? 'neutral' : 'off-brand'}`}
+                    style={{ backgroundColor: s.hex, flexGrow: s.share }}
+                    title={`${s.hex} · ${s.share}% · ΔE ${s.deltaE} from ${s.nearest}`}
+                  ></div>
+                ))}
+              </div>
+              <div className="palette-note">
+                {check.framesSampled > 1 ? `${check.framesSampled} frames sampled` : 'Whole image sampled'} · {brandColors.length} brand colors
+              </div>
+              {check.offBrand.length > 0 ? (
+                <ul className="brief-mandatories">
+                  {check.offBrand.map(s => (
+                    <li key={s.hex} className="missing">
+                      <strong><span className="tag-swatch" style={{ backgroundColor: s.hex }}></span> {s.hex} covers {s.share}%</strong>
+                      <span>Nearest brand color {s.nearest} is ΔE {s.deltaE} away</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="brief-fit-notes">No off-brand color covers more than {OFF_BRAND_CALLOUT_SHARE}% of the asset.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const MarketComparison: FC<{ judgments: Judgment[]; personas: Persona[]; assets: Asset[]; markets: string[] }> = ({ judgments, personas, assets, markets }) => {
+  const stats = useMemo(() => computeMarketStats(assets, personas, judgments, markets), [judgments, personas, assets, markets]);
+  if (!stats.length || !judgments.length) return null;
+  const best = Math.max(...stats.map(m => m.mean));
+
+  return (
+    <div className="analytics-dashboard market-comparison">
+      <div className="analytics-grid">
+        <div className="analytics-card score-matrix-card">
+          <h3 className="analytics-title">Market Comparison</h3>
+          <table className="comparison-table">
+            <thead>
+              <tr>
+                <th>Market</th><th>Personas</th><th>Mean</th><th>Std. Dev.</th><th>Share</th>
+                {assets.length > 1 && assets.map(a => <th key={a.id} title={a.file.name}>{a.variant ? `Variant ${a.variant}` : a.file.name}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(m => (
+                <tr key={m.market} className={m.mean === best ? 'winner' : ''}>
+                  <td>{m.market}</td>
+                  <td className="stat-value">{m.personas}</td>
+                  <td className="stat-value">{m.mean}</td>
+                  <td className="stat-value">{m.stdDev}</td>
+                  <td className="stat-value">{m.avgShare}%</td>
+                  {assets.length > 1 && m.assets.map(a => <td key={a.assetId} className="stat-value">{a.mean}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="market-share-bars">
+            {stats.map(m => (
+              <div key={m.market} className="market-share-row">
+                <span>{m.market}</span>
+                <div className="market-share-track"><div className="market-share-fill" style={{ width: `${m.avgShare}%` }}></div></div>
+                <span className="stat-value">{m.avgShare}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        {stats.map(m => (
+          <div key={m.market} className="analytics-card">
+            <h3 className="analytics-title">{m.market}</h3>
+            <div className="tone-tags">
+              {m.emotions.map(e => (
+                <span key={e.tag} className="tone-tag" title={`${e.share}% here vs ${e.elsewhere}% elsewhere`}>
+                  {e.tag} {e.share - e.elsewhere > 0 ? '+' : ''}{e.share - e.elsewhere}
+                </span>
+              ))}
+            </div>
+            <ul className="market-quotes">
+              {m.quotes.map((q, i) => (
+                <li key={i}>
+                  <p>"{q.quote}"</p>
+                  <span>{q.personaName} · {q.assetName} · {q.score} ({q.gap > 0 ? '+' : ''}{q.gap} vs other markets)</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CostBreakdown: FC<{ usage: UsageRecord[]; personas: Persona[] }> = ({ usage, personas }) => {
+  if (!usage.length) return null;
+  const total = totalUsage(usage);
+  const byPersona = usageBy(usage, r => r.personaId).sort((a, b) => b.cost - a.cost || b.inputTokens - a.inputTokens);
+
+  const rows = (groups: ReturnType<typeof usageBy>, label: (key: string) => string) => groups.map(g => (
+    <tr key={g.key}>
+      <td>{label(g.key)}</td>
+      <td className="stat-value">{g.calls}</td>
+      <td className="stat-value">{formatTokens(g.inputTokens)}</td>
+      <td className="stat-value">{formatTokens(g.outputTokens)}</td>
+      <td className="stat-value">{formatCost(g.cost)}</td>
+    </tr>
+  ));
+  const head = (first: string) => <thead><tr><th>{first}</th><th>Calls</th><th>Input</th><th>Output</th><th>Cost</th></tr></thead>;
+
+  return (
+    <div className="analytics-dashboard cost-breakdown">
+      <div className="analytics-grid">
+        <div className="analytics-card">
+          <h3 className="analytics-title">Cost by Stage</h3>
+          <table className="comparison-table">
+            {head('Stage')}
+            <tbody>
+              {rows(usageBy(usage, r => r.stage), key => usageLabel(key as UsageRecord['stage']))}
+              <tr className="total-row">
+                <td>Total</td>
+                <td className="stat-value">{total.calls}</td>
+                <td className="stat-value">{formatTokens(total.inputTokens)}</td>
+                <td className="stat-value">{formatTokens(total.outputTokens)}</td>
+                <td className="stat-value">{formatCost(total.cost)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="palette-note">Priced per model: {[...new Set(usage.map(r => r.model))].join(', ')}</p>
+        </div>
+        {byPersona.length > 0 && (
+          <div className="analytics-card">
+            <h3 className="analytics-title">Cost by Persona</h3>
+            <table className="comparison-table">
+              {head('Persona')}
+              <tbody>{rows(byPersona, key => personas.find(p => p.id === key)?.name || key)}</tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const StatisticsTables: FC<{ judgments: Judgment[]; personas: Persona[]; assets: Asset[] }> = ({ judgments, personas, assets }) => {
+  const stats = useMemo(() => computeCouncilStats(assets, personas, judgments), [judgments, personas, assets]);
+  const sampled = useMemo(() => computeSampledJudgments(assets, personas, judgments), [judgments, personas, assets]);
+
+  if (!judgments.length) return null;
+
+  const snapshot: [string, string][] = [
+    ['Personas', `${stats.personaCount}`],
+    ['Assets / judgments', `${stats.assetCount} / ${stats.judgmentCount}`],
+    ['Mean score', `${stats.mean}`],
+    ['Median score', `${stats.median}`],
+    ['Std. deviation', `${stats.stdDev}`],
+    ['Avg. emotional intensity', `${stats.avgIntensity}/10`],
+    ['Avg. share likelihood', `${stats.avgShare}% (± ${stats.shareStdDev})`],
+    ['Consensus index', `${stats.consensusIndex}%`],
+    ['Polarization index', `${stats.polarizationIndex}%`],
+    [`First impression ≤ ${FAST_IMPRESSION_SECONDS}s`, stats.fastImpressionShare === null ? '—' : `${stats.fastImpressionShare}%`]
+  ];
+
+  return (
+    <div className="analytics-dashboard statistics-tables">
+      <div className="analytics-grid">
+        <div className="analytics-card">
+            <h3 className="analytics-title">Quantitative Snapshot</h3>
+            <table className="comparison-table">
+                <tbody>
+                    {snapshot.map(([label, value]) => (
+                        <tr key={label}><td>{label}</td><td className="stat-value">{value}</td></tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+
+        <div className="analytics-card">
+            <h3 className="analytics-title">Score Distribution</h3>
+            <table className="comparison-table">
+                <thead><tr><th>Range</th><th>Judgments</th><th>Share</th></tr></thead>
+                <tbody>
+                    {stats.distribution.map(b => (
+                        <tr key={b.range}>
+                            <td>{b.range}</td>
+                            <td className="stat-value">{b.count}</td>
+                            <td className="stat-value">{percentOf(b.count, stats.judgmentCount)}%</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+
+        {stats.assets.length > 1 && (
+            <div className="analytics-card score-matrix-card">
+                <h3 className="analytics-title">Execution Ranking</h3>
+                <table className="comparison-table">
+                    <thead><tr><th>Asset</th><th>Mean</th><th>Median</th><th>Std. Dev.</th><th>Spread</th><th>Share</th><th>Top Emotion</th></tr></thead>
+                    <tbody>
+                        {[...stats.assets].sort((a, b) => b.mean - a.mean).map(a => (
+                            <tr key={a.assetId}>
+                                <td>{a.assetName}</td>
+                                <td className="stat-value">{a.mean}</td>
+                                <td className="stat-value">{a.median}</td>
+                                <td className="stat-value">{a.stdDev}</td>
+                                <td className="stat-value">{a.spread}</td>
+                                <td className="stat-value">{a.avgShare}%</td>
+                                <td>{a.topEmotion || '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        {stats.sampling && (
+            <div className="analytics-card score-matrix-card">
+                <h3 className="analytics-title">Repeated Sampling (95% CI)</h3>
+                <table className="comparison-table">
+                    <thead><tr><th>Persona</th><th>Asset</th><th>Samples</th><th>Score</th><th>Std. Dev.</th><th>Intensity</th><th>Share</th></tr></thead>
+                    <tbody>
+                        <tr className="council-row">
+                            <td>Council</td>
+                            <td>All</td>
+                            <td className="stat-value">{stats.sampling.samplesPerPersona}</td>
+                            <td className="stat-value">{formatInterval(stats.sampling.score)}</td>
+                            <td className="stat-value">{stats.sampling.score.stdDev}</td>
+                            <td className="stat-value">{formatInterval(stats.sampling.intensity)}</td>
+                            <td className="stat-value">{formatInterval(stats.sampling.share, '%')}</td>
+                        </tr>
+                        {sampled.map(r => (
+                            <tr key={`${r.personaId}-${r.assetId}`} className={r.unstable ? 'unstable' : ''}>
+                                <td>{r.personaName}{r.unstable && <span className="unstable-flag">Unstable</span>}</td>
+                                <td>{r.assetName}</td>
+                                <td className="stat-value">{r.samples}</td>
+                                <td className="stat-value">{formatInterval(r.score)}</td>
+                                <td className="stat-value">{r.score.stdDev}</td>
+                                <td className="stat-value">{formatInterval(r.intensity)}</td>
+                                <td className="stat-value">{formatInterval(r.share, '%')}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        <div className="analytics-card">
+            <h3 className="analytics-title">Emotion Frequency</h3>
+            <table className="comparison-table">
+                <thead><tr><th>Emotion</th><th>Count</th><th>Avg. Intensity</th></tr></thead>
+                <tbody>
+                    {stats.emotions.slice(0, 8).map(e => (
+                        <tr key={e.tag}>
+                            <td>{e.tag}</td>
+                            <td className="stat-value">{e.count}</td>
+                            <td className="stat-value">{e.avgIntensity}/10</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+
+        <div className="analytics-card">
+            <h3 className="analytics-title">Trust Perception</h3>
+            {stats.trust.length ? (
+                <table className="comparison-table">
+                    <thead><tr><th>Perception</th><th>Judgments</th><th>Share</th></tr></thead>
+                    <tbody>
+                        {stats.trust.map(t => (
+                            <tr key={t.label}>
+                                <td>{t.label}</td>
+                                <td className="stat-value">{t.count}</td>
+                                <td className="stat-value">{t.share}%</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="stat-empty">No persona named a trust perception.</p>
+            )}
+        </div>
+
+        {([['Most Repeated Pros', stats.topPros], ['Most Repeated Cons', stats.topCons]] as const).map(([title, phrases]) => (
+            <div className="analytics-card" key={title}>
+                <h3 className="analytics-title">{title}</h3>
+                <table className="comparison-table">
+                    <thead><tr><th>Phrase</th><th>Count</th></tr></thead>
+                    <tbody>
+                        {phrases.map(p => (
+                            <tr key={p.text}><td>{p.text}</td><td className="stat-value">{p.count}</td></tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        ))}
+
+        <div className="analytics-card">
+            <h3 className="analytics-title">Outliers (±{OUTLIER_THRESHOLD} from mean)</h3>
+            {stats.outliers.length ? (
+                <table className="comparison-table">
+                    <thead><tr><th>Persona</th><th>Asset</th><th>Score</th><th>Δ Mean</th></tr></thead>
+                    <tbody>
+                        {stats.outliers.map((o, i) => (
+                            <tr key={i}>
+                                <td>{o.personaName}</td>
+                                <td>{o.assetName}</td>
+                                <td className="stat-value">{o.score}</td>
+                                <td className="stat-value">{o.deviation > 0 ? '+' : ''}{o.deviation}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="stat-empty">No judgment sits more than {OUTLIER_THRESHOLD} points from the mean.</p>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AgentNeuralFeed: FC<{
+  logs: string[],
+  usage: UsageRecord[],
+  budget: number,
+  jobs: Record<string, PersonaJobs>,
+  personas: Persona[],
+  expanded: boolean,
+  onToggle: () => void
+}> = ({ logs, usage, budget, jobs, personas, expanded, onToggle }) => {
+  const logEndRef = useRef<HTMLDivElement>(null);
+  const total = totalUsage(usage);
+  const tracked = personas.filter(p => jobs[p.id]);
+  const statusCounts = tracked.reduce((counts, p) => {
+    const status = personaJobStatus(jobs[p.id]);
+    return { ...counts, [status]: counts[status] + 1 };
+  }, { ...EMPTY_JOBS });
+
+  useEffect(() => {
+    if (expanded && logEndRef.current) {
+      logEndRef.current.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [logs, expanded]);
+
+  return (
+    <div className={`neural-feed ${expanded ? 'expanded' : ''}`}>
+      <div className="neural-header" onClick={onToggle}>
+        <div className="neural-title">
+            <Icons.Terminal />
+            <span>Processing Feed</span>
+        </div>
+        {total.calls > 0 && (
+            <div className={`neural-usage ${budget > 0 && total.cost > budget ? 'over-budget' : ''}`} title={`${total.calls} calls`}>
+                {formatTokens(total.inputTokens)} in · {formatTokens(total.outputTokens)} out · {formatCost(total.cost)}
+                {budget > 0 && ` / ${formatCost(budget)}`}
+            </div>
+        )}
+        <div style={{opacity: 0.5}} className="neural-toggle">
+            {expanded ? <Icons.ChevronDown /> : <Icons.ChevronUp />}
+        </div>
+      </div>
+      {expanded && tracked.length > 0 && (
+        <div className="neural-jobs">
+          <div className="neural-jobs-summary">
+            {(Object.keys(EMPTY_JOBS) as (keyof PersonaJobs)[]).filter(status => statusCounts[status] > 0).map(status => (
+              <span key={status} className={status}>{statusCounts[status]} {status}</span>
+            ))}
+          </div>
+          <div className="neural-jobs-grid">
+            {tracked.map(p => {
+              const j = jobs[p.id];
+              return (
+                <span
+                  key={p.id}
+                  className={`persona-job ${personaJobStatus(j)}`}
+                  title={`${p.name}: ${j.done} done, ${j.running} running, ${j.queued} queued${j.failed ? `, ${j.failed} failed` : ''}`}
+                >
+                  {p.name.split(' ')[0]}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {expanded && total.calls > 0 && (
+        <div className="neural-stage-usage">
+          {usageBy(usage, r => r.stage).map(s => (
+            <span key={s.key}>{usageLabel(s.key as UsageRecord['stage'])}: {formatTokens(s.inputTokens + s.outputTokens)} · {formatCost(s.cost)}</span>
+          ))}
+        </div>
+      )}
+      {expanded && (
+        <div className="neural-logs">
+          {logs.length === 0 ? (
+            <div className="log-item" style={{opacity: 0.3}}>System Ready.</div>
+          ) : (
+            logs.map((log, i) => (
+              <div key={i} className="log-item">
+                <span className="log-arrow">&gt;</span> {log}
+              </div>
+            ))
+          )}
+          <div ref={logEndRef} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const TagListEditor: FC<{
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  swatches?: boolean;
+}> = ({ values, onChange, placeholder, swatches }) => {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="tag-editor">
+      <div className="tone-tags">
+        {values.map((v, i) => (
+          <span key={i} className="tone-tag editable-tag">
+            {swatches && <span className="tag-swatch" style={{ backgroundColor: v }}></span>}
+            {v}
+            <button onClick={() => onChange(values.filter((_, j) => j !== i))} title="Remove">×</button>
+          </span>
+        ))}
+      </div>
+      <input
+        className="text-input tag-editor-input"
+        placeholder={placeholder}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}
+        onBlur={add}
+      />
+    </div>
+  );
+};
+
+const BrandSection: FC<{ brand: BrandProfile; onChange?: (brand: BrandProfile) => void }> = ({ brand, onChange }) => {
+  // Editable during review checkpoints so research mistakes don't carry into later stages
+  if (onChange) {
+    return (
+      <div className="brand-card editing">
+        <h2 className="section-title"><Icons.Research /> Brand Profile</h2>
+        <div className="brand-details-grid">
+          <div className="detail-item">
+            <label>Name</label>
+            <input className="text-input" value={brand.name} onChange={e => onChange({ ...brand, name: e.target.value })} />
+          </div>
+          <div className="detail-item">
+            <label>Category</label>
+            <input className="text-input" value={brand.category} onChange={e => onChange({ ...brand, category: e.target.value })} />
+          </div>
+          <div className="detail-item full-width">
+            <label>Target Audience</label>
+            <textarea className="text-input" rows={3} value={brand.targetAudience} onChange={e => onChange({ ...brand, targetAudience: e.target.value })} />
+          </div>
+          <div className="detail-item full-width">
+            <label>Unique Selling Propositions</label>
+            <TagListEditor values={brand.uniqueSellingPropositions || []} onChange={uniqueSellingPropositions => onChange({ ...brand, uniqueSellingPropositions })} placeholder="Add a USP and press Enter" />
+          </div>
+          <div className="detail-item">
+            <label>Tone</label>
+            <TagListEditor values={brand.tone} onChange={tone => onChange({ ...brand, tone })} placeholder="Add a tone word" />
+          </div>
+          <div className="detail-item">
+            <label>Competitors</label>
+            <TagListEditor values={brand.competitors || []} onChange={competitors => onChange({ ...brand, competitors })} placeholder="Add a competitor" />
+          </div>
+          <div className="detail-item full-width">
+            <label>Brand Colors</label>
+            <TagListEditor values={brand.brandColors || []} onChange={brandColors => onChange({ ...brand, brandColors })} placeholder="Add a hex code or color name" swatches />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="brand-card">
+      <h2 className="section-title"><Icons.Research /> Brand Profile</h2>
+      <div className="brand-details-grid">
+        <div className="detail-item">
+          <label>Name</label>
+          <p>{brand.name}</p>
+        </div>
+        <div className="detail-item">
+          <label>Category</label>
+          <p>{brand.category}</p>
+        </div>
+        <div className="detail-item full-width">
+          <label>Unique Selling Propositions</label>
+          <div className="tone-tags">
+            {brand.uniqueSellingPropositions?.slice(0, 3).map((usp, i) => (
+               <span key={i} className="tone-tag usp-tag">{usp}</span>
+            )) || <span className="tone-tag">N/A</span>}
+          </div>
+        </div>
+        <div className="detail-item">
+          <label>Tone</label>
+          <div className="tone-tags">
+            {brand.tone.map((t, i) => <span key={i} className="tone-tag">{t}</span>)}
+          </div>
+        </div>
+        <div className="detail-item">
+          <label>Competitors</label>
+          <p>{brand.competitors?.join(', ') || 'N/A'}</p>
+        </div>
+        <div className="detail-item full-width">
+          <label>Target Audience</label>
+          <p>{brand.targetAudience}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BriefSection: FC<{ brief: CreativeBrief; onChange?: (brief: CreativeBrief) => void }> = ({ brief, onChange }) => {
+  // Editable at the research checkpoint, before any asset is scored against it
+  if (onChange) {
+    return (
+      <div className="brand-card editing">
+        <h2 className="section-title"><Icons.Report /> Creative Brief</h2>
+        <div className="brand-details-grid">
+          <div className="detail-item full-width">
+            <label>Key Message</label>
+            <textarea className="text-input" rows={2} value={brief.keyMessage} onChange={e => onChange({ ...brief, keyMessage: e.target.value })} />
+          </div>
+          <div className="detail-item full-width">
+            <label>Objectives</label>
+            <TagListEditor values={brief.objectives} onChange={objectives => onChange({ ...brief, objectives })} placeholder="Add an objective and press Enter" />
+          </div>
+          <div className="detail-item full-width">
+            <label>Mandatories</label>
+            <TagListEditor values={brief.mandatories} onChange={mandatories => onChange({ ...brief, mandatories })} placeholder="Add a mandatory and press Enter" />
+          </div>
+          <div className="detail-item">
+            <label>Target</label>
+            <textarea className="text-input" rows={3} value={brief.target} onChange={e => onChange({ ...brief, target: e.target.value })} />
+          </div>
+          <div className="detail-item">
+            <label>Intended Tone</label>
+            <TagListEditor values={brief.tone} onChange={tone => onChange({ ...brief, tone })} placeholder="Add a tone word" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="brand-card">
+      <h2 className="section-title"><Icons.Report /> Creative Brief</h2>
+      <div className="brand-details-grid">
+        <div className="detail-item full-width">
+          <label>Key Message</label>
+          <p>{brief.keyMessage || 'N/A'}</p>
+        </div>
+        <div className="detail-item full-width">
+          <label>Objectives</label>
+          <p>{brief.objectives.join('; ') || 'N/A'}</p>
+        </div>
+        <div className="detail-item full-width">
+          <label>Mandatories</label>
+          <div className="tone-tags">
+            {brief.mandatories.length
+              ? brief.mandatories.map((m, i) => <span key={i} className="tone-tag usp-tag">{m}</span>)
+              : <span className="tone-tag">None listed</span>}
+          </div>
+        </div>
+        <div className="detail-item">
+          <label>Target</label>
+          <p>{brief.target || 'N/A'}</p>
+        </div>
+        <div className="detail-item">
+          <label>Intended Tone</label>
+          <div className="tone-tags">
+            {brief.tone.length ? brief.tone.map((t, i) => <span key={i} className="tone-tag">{t}</span>) : <span className="tone-tag">Brand tone</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PersonaCard: FC<{
+  persona: Persona;
+  onSaveToLibrary?: () => void;
+  onEdit?: (persona: Persona) => void;
+  onRemove?: () => void;
+  failedCount?: number;
+  retrying?: boolean;
+  onRetry?: () => void;
+}> = ({ persona, onSaveToLibrary, onEdit, onRemove, failedCount = 0, retrying, onRetry }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing && onEdit) {
+    return (
+      <div className="persona-card editing">
+        <PersonaEditor
+          persona={persona}
+          onCancel={() => setIsEditing(false)}
+          onSave={(updated) => { onEdit(updated); setIsEditing(false); }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`persona-card ${failedCount ? 'has-failures' : ''}`}>
+      <div className="persona-header">
+        <div className="persona-avatar">
+          {persona.name.charAt(0)}
+        </div>
+        <div className="persona-info">
+          <h3>{persona.name}</h3>
+          <span>{persona.occupation}</span>
+        </div>
+        <div className="card-actions">
+          {onEdit && <button className="card-action-btn" onClick={() => setIsEditing(true)}>Edit</button>}
+          {onRemove && <button className="card-action-btn danger" onClick={onRemove}>Remove</button>}
+          {onSaveToLibrary && (
+            <button className="card-action-btn" onClick={onSaveToLibrary} title="Save to persona library">Save</button>
+          )}
+        </div>
+      </div>
+      <div className="persona-meta">
+        {[
+          persona.market,
+          `${persona.age} · ${generationOf(persona.age)}`,
+          persona.gender,
+          persona.location && (persona.locationType ? `${persona.location} (${persona.locationType})` : persona.location),
+          persona.household
+        ].filter(Boolean).join(' · ')}
+      </div>
+      <p className="persona-bio">{persona.bio}</p>
+      <div className="tone-tags">
+          {persona.painPoints.slice(0, 2).map((pp, i) => (
+              <span key={i} className="tone-tag pain-point">{pp}</span>
+          ))}
+      </div>
+      {failedCount > 0 && (
+        <div className="persona-failure">
+          <span>{failedCount} verdict{failedCount > 1 ? 's' : ''} failed</span>
+          {onRetry && (
+            <button className="card-action-btn" onClick={onRetry} disabled={retrying}>
+              {retrying ? 'Retrying...' : 'Retry'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const InterviewPanel: FC<{ persona: Persona; messages: InterviewMessage[]; onAsk?: (question: string) => Promise<void> }> = ({ persona, messages, onAsk }) => {
+  const [open, setOpen] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState('');
+  const firstName = persona.name.split(' ')[0];
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAsk || !question.trim() || pending) return;
+    setPending(true);
+    setError('');
+    try {
+      await onAsk(question.trim());
+      setQuestion('');
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+    setPending(false);
+  };
+
+  return (
+    <div className="interview" onClick={e => e.stopPropagation()}>
+      {onAsk ? (
+        <button className="interview-toggle" onClick={() => setOpen(!open)}>
+          {open ? '−' : '+'} Interview {firstName}{messages.length > 0 && ` (${messages.length / 2})`}
+        </button>
+      ) : (
+        // Exported reports show the transcript as-is
+        <div className="interview-toggle">Interview with {firstName}</div>
+      )}
+      {(open || !onAsk) && (
+        <div className="interview-body">
+          {messages.length === 0 && <div className="interview-empty">Ask {firstName} a follow-up question about this execution.</div>}
+          {messages.map((m, i) => (
+            <div key={i} className={`interview-message ${m.role}`}>
+              <span className="interview-speaker">{m.role === 'user' ? 'You' : firstName}</span>
+              {m.text}
+            </div>
+          ))}
+          {pending && <div className="interview-message persona pending">{firstName} is thinking...</div>}
+          {error && <div className="interview-error">{error}</div>}
+          {onAsk && (
+            <form className="interview-form" onSubmit={send}>
+              <input
+                className="text-input"
+                value={question}
+                onChange={e => setQuestion(e.target.value)}
+                placeholder={`e.g. What would make you share it, ${firstName}?`}
+                disabled={pending}
+              />
+              <button type="submit" className="secondary-btn" disabled={pending || !question.trim()}>Ask</button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReactionText: FC<{ reaction: Pick<Judgment, 'quote' | 'pros' | 'cons'>; hidden: boolean }> = ({ reaction, hidden }) => (
+  <div className="score-reaction" hidden={hidden}>
+    <div className="score-quote">"{reaction.quote}"</div>
+    <div className="pros-cons">
+      <div className="pc-list pros">
+        <h5>Vibes / Strengths</h5>
+        <ul>
+          {reaction.pros.map((p, i) => <li key={i}>{p}</li>)}
+        </ul>
+      </div>
+      <div className="pc-list cons">
+        <h5>Frustrations / Weaknesses</h5>
+        <ul>
+          {reaction.cons.map((c, i) => <li key={i}>{c}</li>)}
+        </ul>
+      </div>
+    </div>
+  </div>
+);
+
+const Scorecard: FC<{
+  judgment: Judgment;
+  persona: Persona;
+  interview?: InterviewMessage[];
+  onAsk?: (question: string) => Promise<void>;
+}> = ({ judgment, persona, interview = [], onAsk }) => {
+  const scoreClass = judgment.score >= 80 ? 'high' : judgment.score >= 50 ? 'med' : 'low';
+  // Both versions are always rendered so the offline report can switch without React
+  const original = judgment.original;
+  const [showOriginal, setShowOriginal] = useState(true);
+  const interval = (judgment.samples?.length || 0) > 1 ? confidenceInterval(judgment.samples!.map(s => s.score), 100) : null;
+
+  return (
+    <div className="scorecard">
+      <div className="score-visual">
+        <div className={`score-circle ${scoreClass}`}>
+          {judgment.score}
+        </div>
+        <span className="score-label">Score</span>
+        {interval && (
+          <span className={`score-ci ${interval.stdDev > UNSTABLE_SCORE_SD ? 'unstable' : ''}`} title={`Mean of ${interval.n} samples, 95% confidence interval`}>
+            {interval.low}–{interval.high}
+          </span>
+        )}
+      </div>
+      <div className="score-content">
+        <div className="score-header">
+          <h4>{persona.name}</h4>
+          <span style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: '1px' }}>{persona.occupation}{persona.market ? ` · ${persona.market}` : ''}</span>
+        </div>
+        {original && (
+          <button
+            className="language-toggle"
+            data-show-original={`Show ${original.language}`}
+            onClick={() => setShowOriginal(!showOriginal)}
+          >
+            {showOriginal ? 'Show English' : `Show ${original.language}`}
+          </button>
+        )}
+        {original && <ReactionText reaction={original} hidden={!showOriginal} />}
+        <ReactionText reaction={judgment} hidden={!!original && showOriginal} />
+        {(onAsk || interview.length > 0) && <InterviewPanel persona={persona} messages={interview} onAsk={onAsk} />}
+      </div>
+    </div>
+  );
+};
+
+// --- PDF Report ---
+// Drawn with jsPDF primitives so text stays selectable and charts stay vector; only the
+// assets themselves are embedded as images. Page 2 is reserved for the table of contents,
+// which is filled in once every section knows its page.
+
+type PdfColor = [number, number, number];
+
+interface PdfImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+const PDF_MARGIN = 18;
+const PDF_TOC_PAGE = 2;
+
+const PDF_COLORS: Record<'ink' | 'muted' | 'faint' | 'rule' | 'accent' | 'high' | 'med' | 'low', PdfColor> = {
+  ink: [17, 17, 17],
+  muted: [110, 110, 110],
+  faint: [245, 245, 245],
+  rule: [225, 225, 225],
+  accent: [250, 204, 21],
+  high: [16, 185, 129],
+  med: [245, 158, 11],
+  low: [239, 68, 68]
+};
+
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-',
+  '…': '...', '•': '·', '−': '-', '→': '->', 'Δ': 'D', 'đ': 'd', 'Đ': 'D'
+};
+
+// The built-in PDF fonts only cover Latin-1: accents outside it are stripped, emoji dropped,
+// and anything else becomes "?". Text with an embedded font only loses emoji and the symbols
+// the smaller Noto fonts lack.
+const pdfText = (value: string, unicode = false) => Array.from(value || '').map(ch => {
+  if (unicode) return ch.length > 1 ? '' : PDF_UNICODE_REPLACEMENTS[ch] ?? ch;
+  if (PDF_REPLACEMENTS[ch]) return PDF_REPLACEMENTS[ch];
+  if (ch.charCodeAt(0) <= 0xFF) return ch;
+  if (ch.length > 1) return '';
+  const stripped = ch.normalize('NFD').replace(/[̀-ͯ]/g, '');
+  return stripped && stripped.charCodeAt(0) <= 0xFF ? stripped : '?';
+}).join('');
+
+// Noto fonts for text outside Latin-1, such as names and quotes from custom markets. A string is
+// drawn in the first loaded font whose pattern it matches, so one string uses one script font.
+// The CJK fonts run to 5-10MB each, so they only ship a regular weight.
+const PDF_FONTS: { family: string; pkg: string; pattern: RegExp; bold: boolean }[] = [
+  { family: 'NotoSansJP', pkg: 'noto-sans-jp@0.4.3', pattern: /[\u3040-\u30FF]/, bold: false },
+  { family: 'NotoSansKR', pkg: 'noto-sans-kr@0.4.3', pattern: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/, bold: false },
+  { family: 'NotoSansSC', pkg: 'noto-sans-sc@0.4.3', pattern: /[\u3400-\u4DBF\u4E00-\u9FFF]/, bold: false },
+  { family: 'NotoSansThai', pkg: 'noto-sans-thai@0.4.2', pattern: /[\u0E00-\u0E7F]/, bold: true },
+  { family: 'NotoSansArabic', pkg: 'noto-sans-arabic@0.4.3', pattern: /[\u0600-\u06FF\u0750-\u077F]/, bold: true },
+  { family: 'NotoSansDevanagari', pkg: 'noto-sans-devanagari@0.4.1', pattern: /[\u0900-\u097F]/, bold: true },
+  { family: 'NotoSansHebrew', pkg: 'noto-sans-hebrew@0.4.1', pattern: /[\u0590-\u05FF]/, bold: true },
+  // Latin Extended, Greek and Cyrillic
+  { family: 'NotoSans', pkg: 'noto-sans@0.4.2', pattern: /[\u0100-\u058F\u1E00-\u1EFF]/, bold: true }
+];
+
+const PDF_UNICODE_REPLACEMENTS: Record<string, string> = { '→': '->', '≤': '<=', '≥': '>=' };
+
+interface PdfFont {
+  family: string;
+  normal: string;
+  bold?: string;
+}
+
+const pdfFontUrl = (font: typeof PDF_FONTS[number], weight: '400Regular' | '700Bold') =>
+  `https://cdn.jsdelivr.net/npm/@expo-google-fonts/${font.pkg}/${weight}/${font.family}_${weight}.ttf`;
+
+// Fetches only the fonts the report's text needs. A font that fails to load leaves its
+// script to Helvetica, as before fonts were embedded.
+const loadPdfFonts = async (sample: string): Promise<PdfFont[]> => {
+  const fetchFont = async (url: string) => {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return (await blobToDataUrl(await res.blob())).split(',')[1];
+  };
+  const loaded = await Promise.all(PDF_FONTS.filter(f => f.pattern.test(sample)).map(async (font): Promise<PdfFont | null> => {
+    try {
+      return {
+        family: font.family,
+        normal: await fetchFont(pdfFontUrl(font, '400Regular')),
+        bold: font.bold ? await fetchFont(pdfFontUrl(font, '700Bold')) : undefined
+      };
+    } catch (e) {
+      console.warn(`Could not load ${font.family} for the PDF`, e);
+      return null;
+    }
+  }));
+  return loaded.filter((f): f is PdfFont => !!f);
+};
+
+const scoreColor = (score: number) => score >= 80 ? PDF_COLORS.high : score >= 50 ? PDF_COLORS.med : PDF_COLORS.low;
+
+// White blended towards the accent yellow, like the on-screen heatmap
+const heatColor = (score: number): PdfColor => {
+  const a = Math.max(0, Math.min(1, score / 100));
+  return PDF_COLORS.accent.map(c => Math.round(255 - (255 - c) * a)) as PdfColor;
+};
+
+// Loads any image URL and re-encodes it as JPEG, which every PDF viewer can show
+const rasterizeImage = (url: string, maxWidth = 1200) => new Promise<PdfImage>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, maxWidth / img.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+  };
+  img.onerror = () => reject(new Error('Could not load image'));
+  img.src = url;
+});
+
+const createPdfWriter = (doc: jsPDF, fonts: PdfFont[] = []) => {
+  fonts.forEach(f => {
+    doc.addFileToVFS(`${f.family}-normal.ttf`, f.normal);
+    doc.addFont(`${f.family}-normal.ttf`, f.family, 'normal');
+    if (f.bold) doc.addFileToVFS(`${f.family}-bold.ttf`, f.bold);
+    doc.addFont(`${f.family}-${f.bold ? 'bold' : 'normal'}.ttf`, f.family, 'bold');
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PDF_MARGIN * 2;
+  const bottom = pageHeight - PDF_MARGIN - 6; // Leaves room for the footer
+  const toc: { title: string; page: number; level: number }[] = [];
+  let y = PDF_MARGIN;
+  let fontStyle: 'normal' | 'bold' | 'italic' = 'normal';
+
+  const lineHeight = (size: number) => size * 0.3528 * 1.35;
+
+  const font = (size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color: PdfColor = PDF_COLORS.ink) => {
+    fontStyle = style;
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  // Switches to the font that can draw the value and returns it cleaned for that font.
+  // The Noto fonts have no italic, so italic text stays upright in them.
+  const fit = (value: string) => {
+    const embedded = PDF_FONTS.find(f => f.pattern.test(value || '') && fonts.some(loaded => loaded.family === f.family));
+    doc.setFont(embedded?.family || 'helvetica', embedded && fontStyle === 'italic' ? 'normal' : fontStyle);
+    return (line: string) => pdfText(line, !!embedded);
+  };
+
+  // Draws a value, or all the lines wrap() made of one, in the font that covers it
+  const draw = (value: string | string[], x: number, top: number, options: TextOptionsLight) => {
+    const lines = typeof value === 'string' ? [value] : value;
+    doc.text(lines.map(fit(lines.join(' '))), x, top, options);
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = PDF_MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const wrap = (value: string, width: number): string[] => doc.splitTextToSize(fit(value)(value), width);
+
+  const text = (value: string, options: { size?: number; style?: 'normal' | 'bold' | 'italic'; color?: PdfColor; indent?: number; gap?: number } = {}) => {
+    const size = options.size ?? 9.5;
+    const indent = options.indent ?? 0;
+    const lh = lineHeight(size);
+    font(size, options.style, options.color);
+    wrap(value, contentWidth - indent).forEach(line => {
+      ensureSpace(lh);
+      doc.text(line, PDF_MARGIN + indent, y, { baseline: 'top' });
+      y += lh;
+    });
+    y += options.gap ?? 1.5;
+  };
+
+  // Level 1 headings open a new page and appear in the contents and the bookmarks
+  const heading = (title: string, level: 1 | 2 | 3 = 2) => {
+    if (level === 1) {
+      newPage();
+      toc.push({ title, page: doc.getNumberOfPages(), level });
+      doc.outline.add(null, pdfText(title), { pageNumber: doc.getNumberOfPages() });
+      font(18, 'bold');
+      draw(title, PDF_MARGIN, y, { baseline: 'top' });
+      y += lineHeight(18) + 1;
+      doc.setDrawColor(...PDF_COLORS.accent);
+      doc.setLineWidth(0.8);
+      doc.line(PDF_MARGIN, y, PDF_MARGIN + 24, y);
+      y += 6;
+      return;
+    }
+    const size = level === 2 ? 12.5 : 10.5;
+    ensureSpace(lineHeight(size) * 3);
+    y += level === 2 ? 3 : 1.5;
+    if (level === 2) toc.push({ title, page: doc.getNumberOfPages(), level });
+    text(title, { size, style: 'bold', gap: 1.5 });
+  };
+
+  const label = (value: string) => text(value.toUpperCase(), { size: 7.5, style: 'bold', color: PDF_COLORS.muted, gap: 1 });
+
+  const bullets = (items: string[], options: { color?: PdfColor; indent?: number } = {}) => {
+    const indent = options.indent ?? 0;
+    items.forEach(item => {
+      // Keep the first line with its bullet
+      ensureSpace(lineHeight(9.5));
+      doc.setFillColor(...(options.color || PDF_COLORS.muted));
+      doc.circle(PDF_MARGIN + indent + 1.2, y + 1.7, 0.6, 'F');
+      text(item, { indent: indent + 4, gap: 0.8 });
+    });
+    y += 1;
+  };
+
+  const keyValues = (rows: [string, string][], keyWidth = 45) => {
+    rows.forEach(([key, value]) => {
+      const lines = wrap(value, contentWidth - keyWidth);
+      const height = lines.length * lineHeight(9.5) + 1.5;
+      ensureSpace(height);
+      font(8, 'bold', PDF_COLORS.muted);
+      draw(key.toUpperCase(), PDF_MARGIN, y + 0.5, { baseline: 'top' });
+      font(9.5);
+      draw(lines, PDF_MARGIN + keyWidth, y, { baseline: 'top' });
+      y += height;
+    });
+    y += 2;
+  };
+
+  const table = (header: string[], rows: string[][], options: { widths?: number[]; fills?: (PdfColor | null)[][]; align?: ('left' | 'right' | 'center')[] } = {}) => {
+    const widths = options.widths || header.map(() => contentWidth / header.length);
+    const size = 8.5;
+    const lh = lineHeight(size);
+    const pad = 1.6;
+
+    const drawRow = (cells: string[], bold: boolean, fills?: (PdfColor | null)[]) => {
+      const wrapped = cells.map((cell, i) => wrap(cell, widths[i] - pad * 2));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lh + pad * 2;
+      if (y + height > bottom) {
+        newPage();
+        if (!bold) drawRow(header, true);
+      }
+      let x = PDF_MARGIN;
+      wrapped.forEach((lines, i) => {
+        const fill = fills?.[i];
+        if (fill) {
+          doc.setFillColor(...fill);
+          doc.rect(x, y, widths[i], height, 'F');
+        }
+        font(size, bold ? 'bold' : 'normal', bold ? PDF_COLORS.muted : PDF_COLORS.ink);
+        const align = options.align?.[i] || 'left';
+        const textX = align === 'right' ? x + widths[i] - pad : align === 'center' ? x + widths[i] / 2 : x + pad;
+        draw(lines, textX, y + pad, { baseline: 'top', align });
+        x += widths[i];
+      });
+      y += height;
+      doc.setDrawColor(...PDF_COLORS.rule);
+      doc.setLineWidth(0.2);
+      doc.line(PDF_MARGIN, y, PDF_MARGIN + widths.reduce((a, b) => a + b, 0), y);
+    };
+
+    ensureSpace(lh * 3 + pad * 4);
+    drawRow(header, true);
+    rows.forEach((row, i) => drawRow(row, false, options.fills?.[i]));
+    y += 4;
+  };
+
+  const barChart = (items: { label: string; value: number; display: string }[], max: number, color: PdfColor = PDF_COLORS.accent) => {
+    const labelWidth = 42;
+    const valueWidth = 16;
+    const trackWidth = contentWidth - labelWidth - valueWidth - 4;
+    items.forEach(item => {
+      ensureSpace(6);
+      font(8.5, 'normal', PDF_COLORS.ink);
+      doc.text(wrap(item.label, labelWidth - 2)[0] || '', PDF_MARGIN + labelWidth - 2, y + 2.6, { baseline: 'middle', align: 'right' });
+      doc.setFillColor(...PDF_COLORS.faint);
+      doc.rect(PDF_MARGIN + labelWidth, y + 0.6, trackWidth, 4, 'F');
+      doc.setFillColor(...color);
+      doc.rect(PDF_MARGIN + labelWidth, y + 0.6, max > 0 ? trackWidth * Math.min(1, item.value / max) : 0, 4, 'F');
+      font(8.5, 'bold');
+      draw(item.display, PDF_MARGIN + labelWidth + trackWidth + 3, y + 2.6, { baseline: 'middle' });
+      y += 6;
+    });
+    y += 3;
+  };
+
+  const kpis = (items: { label: string; value: string; color?: PdfColor }[]) => {
+    const gap = 4;
+    const width = (contentWidth - gap * (items.length - 1)) / items.length;
+    ensureSpace(22);
+    items.forEach((item, i) => {
+      const x = PDF_MARGIN + i * (width + gap);
+      doc.setFillColor(...PDF_COLORS.faint);
+      doc.roundedRect(x, y, width, 20, 2, 2, 'F');
+      font(7, 'bold', PDF_COLORS.muted);
+      draw(item.label.toUpperCase(), x + 4, y + 4, { baseline: 'top' });
+      font(16, 'bold', item.color || PDF_COLORS.ink);
+      draw(item.value, x + 4, y + 10, { baseline: 'top' });
+    });
+    y += 26;
+  };
+
+  const tags = (values: string[]) => {
+    if (!values.length) return;
+    const height = 5;
+    let x = PDF_MARGIN;
+    ensureSpace(height + 2);
+    font(7.5, 'normal', PDF_COLORS.ink);
+    values.forEach(value => {
+      const label = fit(value)(value);
+      const width = doc.getTextWidth(label) + 4;
+      if (x + width > PDF_MARGIN + contentWidth) {
+        x = PDF_MARGIN;
+        y += height + 1.5;
+        ensureSpace(height + 2);
+      }
+      doc.setFillColor(...heatColor(35));
+      doc.roundedRect(x, y, width, height, 1.5, 1.5, 'F');
+      doc.text(label, x + 2, y + height / 2, { baseline: 'middle' });
+      x += width + 1.5;
+    });
+    y += height + 3;
+  };
+
+  const image = (img: PdfImage, maxWidth: number, maxHeight: number, x = PDF_MARGIN) => {
+    const scale = Math.min(maxWidth / img.width, maxHeight / img.height);
+    const width = img.width * scale;
+    const height = img.height * scale;
+    ensureSpace(height + 2);
+    doc.addImage(img.dataUrl, 'JPEG', x, y, width, height);
+    return { width, height };
+  };
+
+  const timeline = (reactions: TimelineReaction[], duration: number) => {
+    const bins = timelineDensity(reactions, duration);
+    const maxBin = Math.max(1, ...bins);
+    const binWidth = contentWidth / bins.length;
+    ensureSpace(16);
+    bins.forEach((count, i) => {
+      doc.setFillColor(...heatColor(count ? 15 + 85 * (count / maxBin) : 4));
+      doc.rect(PDF_MARGIN + i * binWidth, y, binWidth, 4, 'F');
+    });
+    y += 5;
+    doc.setDrawColor(...PDF_COLORS.rule);
+    doc.setLineWidth(0.3);
+    doc.line(PDF_MARGIN, y + 3, PDF_MARGIN + contentWidth, y + 3);
+    reactions.forEach(r => {
+      doc.setFillColor(...PDF_COLORS.ink);
+      doc.circle(PDF_MARGIN + Math.min(1, r.seconds / duration) * contentWidth, y + 3, 0.9, 'F');
+    });
+    y += 5;
+    font(7, 'normal', PDF_COLORS.muted);
+    doc.text('0:00', PDF_MARGIN, y, { baseline: 'top' });
+    doc.text(formatTimecode(duration), PDF_MARGIN + contentWidth, y, { baseline: 'top', align: 'right' });
+    y += 6;
+  };
+
+  return {
+    doc, toc, contentWidth, pageWidth, pageHeight, lineHeight, font, newPage, ensureSpace, wrap, draw,
+    text, heading, label, bullets, keyValues, table, barChart, kpis, tags, image, timeline,
+    get y() { return y; },
+    set y(value: number) { y = value; }
+  };
+};
+
+type PdfWriter = ReturnType<typeof createPdfWriter>;
+
+const stripInlineMarkdown = (value: string) => value
+  .replace(/\*\*(.+?)\*\*/g, '$1')
+  .replace(/__(.+?)__/g, '$1')
+  .replace(/\*(.+?)\*/g, '$1')
+  .replace(/`(.+?)`/g, '$1')
+  .replace(/\[(.+?)\]\((.+?)\)/g, '$1');
+
+// Covers what the synthesis prompt produces: headings, lists, tables, quotes and paragraphs
+const writeMarkdown = (w: PdfWriter, markdown: string) => {
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) w.text(stripInlineMarkdown(paragraph.join(' ')), { gap: 3 });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
+    const bulletMatch = line.match(/^(\s*)([-*+]|\d+\.)\s+(.*)$/);
+
+    if (!line.trim()) {
+      flush();
+    } else if (headingMatch) {
+      flush();
+      w.heading(stripInlineMarkdown(headingMatch[2]), headingMatch[1].length <= 2 ? 2 : 3);
+    } else if (line.trim().startsWith('|')) {
+      flush();
+      const rows: string[][] = [];
+      for (; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+        const cells = lines[i].trim().replace(/^\||\|$/g, '').split('|').map(c => stripInlineMarkdown(c.trim()));
+        if (!cells.every(c => /^:?-+:?$/.test(c))) rows.push(cells);
+      }
+      i--;
+      if (rows.length) w.table(rows[0], rows.slice(1));
+    } else if (bulletMatch) {
+      flush();
+      w.bullets([stripInlineMarkdown(bulletMatch[3])], { indent: Math.min(8, Math.floor(bulletMatch[1].length / 2) * 4) });
+      w.y -= 1;
+    } else if (line.startsWith('>')) {
+      flush();
+      w.text(stripInlineMarkdown(line.replace(/^>\s?/, '')), { style: 'italic', color: PDF_COLORS.muted, indent: 4 });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+};
+
+const writePdfScorecard = (w: PdfWriter, judgment: Judgment, persona: Persona | undefined, interview: InterviewMessage[] = []) => {
+  const { doc } = w;
+  // Keep the header, quote and verdict together; lists may flow onto the next page
+  const quoteLines = w.wrap(`"${judgment.quote}"`, w.contentWidth - 20);
+  w.ensureSpace(22 + quoteLines.length * w.lineHeight(10));
+
+  const top = w.y;
+  doc.setFillColor(...scoreColor(judgment.score));
+  doc.circle(PDF_MARGIN + 7, top + 7, 7, 'F');
+  w.font(12, 'bold', [255, 255, 255]);
+  doc.text(String(judgment.score), PDF_MARGIN + 7, top + 7, { baseline: 'middle', align: 'center' });
+
+  w.font(11, 'bold');
+  w.draw(persona?.name || judgment.personaId, PDF_MARGIN + 20, top, { baseline: 'top' });
+  w.font(8, 'normal', PDF_COLORS.muted);
+  w.draw([persona?.occupation, persona && `${persona.age}`, persona?.location].filter(Boolean).join(' · '), PDF_MARGIN + 20, top + 5.5, { baseline: 'top' });
+  w.font(10, 'italic');
+  w.draw(quoteLines, PDF_MARGIN + 20, top + 11, { baseline: 'top' });
+  w.y = Math.max(top + 16, top + 11 + quoteLines.length * w.lineHeight(10)) + 2;
+
+  if (judgment.original) w.text(`Translated from ${judgment.original.language}; the original wording is in the HTML and Markdown exports.`, { size: 8, color: PDF_COLORS.muted, gap: 1 });
+  w.text(`Verdict: ${judgment.verdict}`, { gap: 2 });
+  w.label('Strengths');
+  w.bullets(judgment.pros, { color: PDF_COLORS.high });
+  w.label('Weaknesses');
+  w.bullets(judgment.cons, { color: PDF_COLORS.low });
+
+  const meta = [
+    judgment.emotionalIntensity !== undefined && `Intensity ${judgment.emotionalIntensity}/10`,
+    judgment.shareLikelihood !== undefined && `Share likelihood ${judgment.shareLikelihood}%`,
+    judgment.trustPerception && `Trust: ${judgment.trustPerception}`
+  ].filter(Boolean) as string[];
+  if (meta.length) w.text(meta.join('   ·   '), { size: 8, color: PDF_COLORS.muted });
+  if (judgment.emotionalTags?.length) w.tags(judgment.emotionalTags);
+  if (judgment.timecodedReactions?.length) {
+    w.label('Timecoded Reactions');
+    w.bullets(judgment.timecodedReactions.map(r => `${r.time}  ${r.reaction}`));
+  }
+  if (interview.length) {
+    w.label('Interview');
+    interview.forEach(m => w.text(`${m.role === 'user' ? 'Researcher' : persona?.name || 'Persona'}: ${m.text}`, {
+      size: 9,
+      color: m.role === 'user' ? PDF_COLORS.muted : undefined,
+      gap: 1.5
+    }));
+  }
+
+  doc.setDrawColor(...PDF_COLORS.rule);
+  doc.setLineWidth(0.2);
+  doc.line(PDF_MARGIN, w.y, PDF_MARGIN + w.contentWidth, w.y);
+  w.y += 5;
+};
+
+const buildPdfReport = (state: AppState, images: Record<string, PdfImage>, frames: Record<string, AttentionFrames>, fonts: PdfFont[] = []) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const w = createPdfWriter(doc, fonts);
+  const brand = state.brandProfile!;
+  const stats = computeCouncilStats(state.assets, state.personas, state.judgments);
+  const personaOf = (id: string) => state.personas.find(p => p.id === id);
+
+  // Cover
+  w.font(9, 'bold', PDF_COLORS.muted);
+  doc.text('CREATIVE COUNCIL', PDF_MARGIN, PDF_MARGIN, { baseline: 'top' });
+  w.draw(`CONFIDENTIAL · ${new Date(state.runStartedAt || Date.now()).toLocaleDateString()}`, w.pageWidth - PDF_MARGIN, PDF_MARGIN, { baseline: 'top', align: 'right' });
+  doc.setFillColor(...PDF_COLORS.accent);
+  doc.rect(PDF_MARGIN, 90, 30, 2, 'F');
+  w.y = 98;
+  w.text('Strategic Analysis', { size: 11, style: 'bold', color: PDF_COLORS.muted, gap: 3 });
+  w.text(brand.name, { size: 34, style: 'bold', gap: 4 });
+  w.text(state.url, { size: 10, color: PDF_COLORS.muted, gap: 12 });
+  w.keyValues([
+    [state.markets.length > 1 ? 'Markets' : 'Market', state.markets.join(', ')],
+    ['Assets', state.assets.map(a => a.file.name).join(', ')],
+    ['Council', `${state.personas.length} personas, ${state.judgments.length} verdicts`],
+    ...(state.runSettings ? [['Model', `${PROVIDER_LABELS[state.runSettings.provider]} · ${describeRunModels(state.runSettings)}`] as [string, string]] : []),
+    ...(state.runSettings && describeCustomPrompts(state.runSettings) ? [['Custom prompts', describeCustomPrompts(state.runSettings)] as [string, string]] : [])
+  ]);
+
+  // Reserved for the table of contents
+  doc.addPage();
+
+  w.heading('Brand Profile', 1);
+  w.keyValues([
+    ['Category', brand.category],
+    ['Target Audience', brand.targetAudience],
+    ['Tone', brand.tone.join(', ')],
+    ['Competitors', brand.competitors?.join(', ') || 'N/A'],
+    ['Brand Colors', brand.brandColors?.join(', ') || 'N/A']
+  ]);
+  w.label('Unique Selling Propositions');
+  w.bullets(brand.uniqueSellingPropositions || []);
+
+  w.heading('The Council', 1);
+  state.personas.forEach(p => {
+    w.ensureSpace(30);
+    w.text(p.name, { size: 11, style: 'bold', gap: 0.5 });
+    w.text([p.occupation, `${p.age} (${generationOf(p.age)})`, p.gender, p.location, p.locationType, p.household].filter(Boolean).join(' · '), { size: 8, color: PDF_COLORS.muted });
+    w.text(p.bio);
+    if (p.painPoints.length) w.tags(p.painPoints);
+    w.y += 3;
+  });
+
+  w.heading('Quantitative Snapshot', 1);
+  w.kpis([
+    { label: 'Council Score', value: `${Math.round(stats.mean)}`, color: scoreColor(stats.mean) },
+    { label: 'Share Likelihood', value: `${stats.avgShare}%` },
+    { label: 'Avg. Intensity', value: `${stats.avgIntensity}/10` },
+    { label: 'Consensus', value: `${stats.consensusIndex}%` }
+  ]);
+  w.table(['Metric', 'Value'], [
+    ['Personas / assets / judgments', `${stats.personaCount} / ${stats.assetCount} / ${stats.judgmentCount}`],
+    ['Mean / median score', `${stats.mean} / ${stats.median}`],
+    ['Std. deviation', `${stats.stdDev}`],
+    ['Share likelihood', `${stats.avgShare}% (± ${stats.shareStdDev})`],
+    ['Polarization index', `${stats.polarizationIndex}%`],
+    [`First impression within ${FAST_IMPRESSION_SECONDS}s`, stats.fastImpressionShare === null ? 'n/a' : `${stats.fastImpressionShare}%`]
+  ], { widths: [w.contentWidth * 0.6, w.contentWidth * 0.4], align: ['left', 'right'] });
+
+  w.heading('Score Distribution');
+  w.barChart(stats.distribution.map(b => ({ label: b.range, value: b.count, display: `${b.count}` })), Math.max(1, ...stats.distribution.map(b => b.count)));
+
+  w.heading('Dominant Emotions');
+  const topEmotions = stats.emotions.slice(0, 8);
+  w.barChart(topEmotions.map(e => ({ label: e.tag, value: e.count, display: `${e.count} · ${e.avgIntensity}/10` })), Math.max(1, ...topEmotions.map(e => e.count)));
+
+  if (state.assets.length > 1) {
+    w.heading('Persona × Asset Scores');
+    const nameWidth = 40;
+    const cellWidth = (w.contentWidth - nameWidth) / state.assets.length;
+    w.table(
+      ['', ...state.assets.map((a, i) => `#${i + 1} ${a.file.name}`)],
+      [
+        ...state.personas.map(p => [p.name, ...state.assets.map(a => `${findJudgment(state.judgments, p.id, a.id)?.score ?? '-'}`)]),
+        ['Average', ...state.assets.map(a => `${averageScore(state.judgments.filter(j => j.assetId === a.id))}`)]
+      ],
+      {
+        widths: [nameWidth, ...state.assets.map(() => cellWidth)],
+        align: ['left', ...state.assets.map(() => 'center' as const)],
+        fills: state.personas.map(p => [null, ...state.assets.map(a => {
+          const j = findJudgment(state.judgments, p.id, a.id);
+          return j ? heatColor(j.score) : null;
+        })])
+      }
+    );
+    w.heading('Execution Ranking');
+    w.table(['Asset', 'Mean', 'Median', 'Std. Dev.', 'Spread', 'Share', 'Top Emotion'],
+      [...stats.assets].sort((a, b) => b.mean - a.mean).map(a => [a.assetName, `${a.mean}`, `${a.median}`, `${a.stdDev}`, `${a.spread}`, `${a.avgShare}%`, a.topEmotion || '-']),
+      { widths: [50, 16, 16, 18, 16, 16, w.contentWidth - 132] });
+  }
+
+  (Object.keys(DEMOGRAPHIC_LABELS) as DemographicDimension[]).forEach(dimension => {
+    const slices = stats.demographics[dimension];
+    if (!slices.some(s => s.slice !== 'Unspecified')) return;
+    w.heading(`By ${DEMOGRAPHIC_LABELS[dimension]}`);
+    w.barChart(slices.map(s => ({ label: s.slice, value: s.mean, display: `${Math.round(s.mean)} · ${s.topEmotion || '-'}` })), 100);
+  });
+
+  if (stats.trust.length) {
+    w.heading('Trust Perception');
+    w.table(['Perception', 'Judgments', 'Share'], stats.trust.map(t => [t.label, `${t.count}`, `${t.share}%`]),
+      { widths: [w.contentWidth * 0.6, w.contentWidth * 0.2, w.contentWidth * 0.2], align: ['left', 'right', 'right'] });
+  }
+
+  w.heading('Most Repeated Pros and Cons');
+  w.table(['Pro', 'n', 'Con', 'n'],
+    Array.from({ length: Math.max(stats.topPros.length, stats.topCons.length) }, (_, i) => [
+      stats.topPros[i]?.text || '', stats.topPros[i] ? `${stats.topPros[i].count}` : '',
+      stats.topCons[i]?.text || '', stats.topCons[i] ? `${stats.topCons[i].count}` : ''
+    ]),
+    { widths: [w.contentWidth * 0.42, w.contentWidth * 0.08, w.contentWidth * 0.42, w.contentWidth * 0.08], align: ['left', 'right', 'left', 'right'] });
+
+  w.heading('Outliers');
+  if (stats.outliers.length) {
+    w.table(['Persona', 'Asset', 'Score', 'Δ Mean'],
+      stats.outliers.map(o => [o.personaName, o.assetName, `${o.score}`, `${o.deviation > 0 ? '+' : ''}${o.deviation}`]),
+      { align: ['left', 'left', 'right', 'right'] });
+  } else {
+    w.text(`No judgment sits more than ${OUTLIER_THRESHOLD} points from the mean.`, { color: PDF_COLORS.muted });
+  }
+
+  if (stats.sampling) {
+    const sampling = stats.sampling;
+    w.heading('Repeated Sampling');
+    w.text(`Each persona judged every asset up to ${sampling.samplesPerPersona} times. Values are means with 95% confidence intervals; the average spread within a persona is ±${sampling.noise} points, and personas above ±${UNSTABLE_SCORE_SD} are flagged as unstable.`, { color: PDF_COLORS.muted, gap: 3 });
+    w.table(['Council', 'Mean (95% CI)'], [
+      ['Score', formatInterval(sampling.score)],
+      ['Emotional intensity', formatInterval(sampling.intensity)],
+      ['Share likelihood', formatInterval(sampling.share, '%')]
+    ], { widths: [w.contentWidth * 0.6, w.contentWidth * 0.4], align: ['left', 'right'] });
+    w.table(['Persona', 'Asset', 'n', 'Score', 'SD', 'Intensity', 'Share'],
+      computeSampledJudgments(state.assets, state.personas, state.judgments).map(r => [
+        `${r.personaName}${r.unstable ? ' (unstable)' : ''}`, r.assetName, `${r.samples}`, formatInterval(r.score),
+        `${r.score.stdDev}`, formatInterval(r.intensity), formatInterval(r.share, '%')
+      ]),
+      { widths: [38, 34, 8, 28, 12, 26, w.contentWidth - 146], align: ['left', 'left', 'right', 'right', 'right', 'right', 'right'] });
+  }
+
+  if (state.brief) {
+    const brief = state.brief;
+    w.heading('Creative Brief', 1);
+    w.keyValues([
+      ['Key Message', brief.keyMessage],
+      ['Objectives', brief.objectives.join('; ')],
+      ['Mandatories', brief.mandatories.join('; ') || 'None listed'],
+      ['Target', brief.target],
+      ['Intended Tone', brief.tone.join(', ') || 'Brand tone']
+    ]);
+    const fits = state.assets
+      .map(asset => ({ asset, fit: state.briefFits.find(f => f.assetId === asset.id) }))
+      .filter((a): a is { asset: Asset; fit: BriefFit } => !!a.fit);
+    if (fits.length) {
+      w.heading('Brief Fit', 2);
+      w.table(['Asset', 'Fit', 'Message', 'Tone', 'Mandatories'],
+        fits.map(({ asset, fit }) => [
+          asset.file.name,
+          `${briefFitScore(fit)}`,
+          `${fit.messageMatch}`,
+          `${fit.toneMatch}`,
+          `${fit.mandatories.filter(m => m.present).length}/${fit.mandatories.length}`
+        ]),
+        {
+          widths: [w.contentWidth - 96, 18, 24, 18, 36],
+          fills: fits.map(({ fit }) => [null, heatColor(briefFitScore(fit)), null, null, null]),
+          align: ['left', 'right', 'right', 'right', 'right']
+        });
+      fits.forEach(({ asset, fit }) => {
+        w.label(asset.file.name);
+        w.text(`Takeaway: "${fit.takeaway}"`, { style: 'italic', gap: 1.5 });
+        if (fit.mandatories.length) {
+          w.bullets(fit.mandatories.map(m => `${m.present ? 'Present' : 'Missing'}: ${m.item}${m.note ? ` - ${m.note}` : ''}`));
+        }
+        if (fit.toneNotes) w.text(`Tone: ${fit.toneNotes}`, { size: 8.5, color: PDF_COLORS.muted, gap: 3 });
+      });
+    }
+  }
+
+  const marketStats = computeMarketStats(state.assets, state.personas, state.judgments, state.markets);
+  if (marketStats.length && state.judgments.length) {
+    w.heading('Market Comparison', 1);
+    w.text(`${marketStats.length} markets, each with its own council, sharing one brand research.`, { color: PDF_COLORS.muted, gap: 4 });
+    w.table(['Market', 'Personas', 'Mean', 'Std. Dev.', 'Share', ...(state.assets.length > 1 ? state.assets.map(a => a.variant ? `Variant ${a.variant}` : a.file.name) : [])],
+      marketStats.map(m => [m.market, `${m.personas}`, `${m.mean}`, `${m.stdDev}`, `${m.avgShare}%`, ...(state.assets.length > 1 ? m.assets.map(a => `${a.mean}`) : [])]));
+    w.heading('Mean Score by Market');
+    w.barChart(marketStats.map(m => ({ label: m.market, value: m.mean, display: `${m.mean}` })), 100);
+    w.heading('Share Likelihood by Market');
+    w.barChart(marketStats.map(m => ({ label: m.market, value: m.avgShare, display: `${m.avgShare}%` })), 100);
+    marketStats.forEach(m => {
+      w.heading(m.market);
+      w.text(`Over-indexes on: ${m.emotions.filter(e => e.share > e.elsewhere).map(e => `${e.tag} (${e.share}% vs ${e.elsewhere}%)`).join(', ') || 'no emotion more than elsewhere'}`, { gap: 2 });
+      w.bullets(m.quotes.map(q => `"${q.quote}" - ${q.personaName}, ${q.assetName}, ${q.score} (${q.gap > 0 ? '+' : ''}${q.gap} vs other markets)`));
+    });
+  }
+
+  if (state.paletteChecks.length) {
+    w.heading('Palette Compliance', 1);
+    w.text(`Dominant colors are measured locally and compared with the brand palette (${(brand.brandColors || []).join(', ')}) using CIEDE2000. A color within ${ON_BRAND_DELTA_E} counts as on brand; neutrals only count when the palette contains them.`, { color: PDF_COLORS.muted, gap: 4 });
+    state.assets.forEach(asset => {
+      const check = state.paletteChecks.find(c => c.assetId === asset.id);
+      if (!check) return;
+      w.ensureSpace(28);
+      w.text(`${asset.file.name} - ${check.score}% on brand`, { size: 11, style: 'bold', gap: 2 });
+      // Swatch strip, each color as wide as its share of the asset
+      const total = check.swatches.reduce((sum, s) => sum + s.share, 0) || 1;
+      let x = PDF_MARGIN;
+      check.swatches.forEach(s => {
+        const width = (s.share / total) * w.contentWidth;
+        doc.setFillColor(...(parseHex(s.hex) as PdfColor));
+        doc.rect(x, w.y, width, 7, 'F');
+        x += width;
+      });
+      doc.setDrawColor(...PDF_COLORS.rule);
+      doc.rect(PDF_MARGIN, w.y, w.contentWidth, 7);
+      w.y += 10;
+      if (check.offBrand.length) {
+        w.bullets(check.offBrand.map(s => `Off brand: ${s.hex} covers ${s.share}% (nearest ${s.nearest}, Delta E ${s.deltaE})`), { color: PDF_COLORS.low });
+      } else {
+        w.text(`No off-brand color covers more than ${OFF_BRAND_CALLOUT_SHARE}% of the asset.`, { size: 8.5, color: PDF_COLORS.muted });
+      }
+      w.y += 3;
+    });
+  }
+
+  if (state.comparisons.length) {
+    const groups = getVariantGroups(state.assets);
+    const comparisonStats = computeComparisonStats(state.comparisons, groups.map(g => g.label));
+    w.heading('Head-to-Head Comparison', 1);
+    w.barChart(comparisonStats.variants.map(v => ({ label: `Variant ${v.label}`, value: v.winRate, display: `${v.winRate}% · ${v.avgMargin}/10` })), 100);
+    w.text(groups.map(g => `${g.label}: ${g.assets.map(a => a.file.name).join(', ')}`).join('   '), { size: 8, color: PDF_COLORS.muted, gap: 4 });
+    w.table(['Persona', 'Pick', 'Margin', 'Reason'],
+      state.comparisons.map(c => [personaOf(c.personaId)?.name || c.personaId, c.preferredVariant, `${c.margin}/10`, c.reason]),
+      { widths: [38, 14, 16, w.contentWidth - 68] });
+  }
+
+  if (state.debate.length) {
+    const debateInput = buildDebateInput(state.assets, state.personas, state.judgments, state.debate);
+    w.heading('Council Debate', 1);
+    w.text(`${debateInput.rounds} round(s). Personas read each other's anonymized reactions and could revise their scores; the statistics above describe the verdicts before the debate.`, { color: PDF_COLORS.muted, gap: 4 });
+    w.table(['Asset', 'Trend', 'Mean', 'Std. Dev.', 'Revisions'],
+      debateInput.movement.map(m => {
+        const first = m.rounds[0];
+        const last = m.rounds[m.rounds.length - 1];
+        return [m.assetName, DEBATE_TREND_LABELS[m.trend], `${first.mean} -> ${last.mean}`, `${first.stdDev} -> ${last.stdDev}`, `${m.revisions}`];
+      }),
+      { widths: [w.contentWidth - 112, 28, 30, 30, 24], align: ['left', 'left', 'right', 'right', 'right'] });
+    w.table(['Round', 'Persona', 'Score', 'Reply'],
+      debateInput.transcript.map(t => [`${t.round}`, `${t.personaName}${state.assets.length > 1 ? `\n${t.assetName}` : ''}`, `${t.previousScore} -> ${t.score}`, `${t.reply} (${t.reason})`]),
+      { widths: [14, 36, 20, w.contentWidth - 70] });
+  }
+
+  if (state.finalReport) {
+    w.heading('Executive Narrative', 1);
+    writeMarkdown(w, state.finalReport);
+  }
+
+  state.assets.forEach((asset, ai) => {
+    const assetJudgments = state.judgments.filter(j => j.assetId === asset.id);
+    if (!assetJudgments.length) return;
+    w.heading(`Execution ${ai + 1} - ${asset.file.name}`, 1);
+
+    const top = w.y;
+    const img = images[asset.id];
+    const shown = img ? w.image(img, w.contentWidth * 0.45, 70) : { width: 0, height: 0 };
+    w.y = top;
+    const infoX = PDF_MARGIN + (shown.width ? shown.width + 8 : 0);
+    const assetStats = stats.assets.find(a => a.assetId === asset.id);
+    [
+      ['Average Score', `${averageScore(assetJudgments)}`],
+      ['Verdicts', `${assetJudgments.length}`],
+      ['Top Emotion', assetStats?.topEmotion || '-'],
+      ...(asset.variant ? [['Variant', asset.variant]] : []),
+      ...(judgedFrom(asset) ? [['Judged From', judgedFrom(asset)]] : [])
+    ].forEach(([key, value]) => {
+      w.font(7.5, 'bold', PDF_COLORS.muted);
+      doc.text(key.toUpperCase(), infoX, w.y, { baseline: 'top' });
+      w.font(16, 'bold');
+      w.draw(value, infoX, w.y + 4, { baseline: 'top' });
+      w.y += 14;
+    });
+    w.y = Math.max(w.y, top + shown.height) + 6;
+
+    const reactions = collectTimelineReactions(state.judgments, state.personas, asset.id);
+    if (reactions.length) {
+      const assetFrames = frames[asset.id];
+      const duration = Math.max(assetFrames?.duration || 0, ...reactions.map(r => r.seconds));
+      w.heading('Attention Timeline', 3);
+      w.timeline(reactions, duration);
+      const moments = mostCitedMoments(reactions);
+      const thumbWidth = (w.contentWidth - 3 * 4) / 4;
+      const thumbHeight = img ? thumbWidth * (img.height / img.width) : thumbWidth * 9 / 16;
+      w.ensureSpace(thumbHeight + 24);
+      const rowTop = w.y;
+      let rowBottom = rowTop;
+      moments.forEach((m, i) => {
+        const x = PDF_MARGIN + i * (thumbWidth + 4);
+        let cursor = rowTop;
+        const frame = assetFrames?.frames[i];
+        if (frame) {
+          doc.addImage(frame.image, 'JPEG', x, cursor, thumbWidth, thumbHeight);
+          cursor += thumbHeight + 1.5;
+        }
+        w.font(7.5, 'bold');
+        w.draw(`${formatTimecode(m.seconds)} · ${m.reactions.length} reaction${m.reactions.length > 1 ? 's' : ''}`, x, cursor, { baseline: 'top' });
+        cursor += 4;
+        w.font(7, 'normal', PDF_COLORS.muted);
+        m.reactions.slice(0, 2).forEach(r => {
+          const lines = w.wrap(`${r.personaName}: ${r.reaction}`, thumbWidth).slice(0, 3);
+          doc.text(lines, x, cursor, { baseline: 'top' });
+          cursor += lines.length * w.lineHeight(7) + 1;
+        });
+        rowBottom = Math.max(rowBottom, cursor);
+      });
+      w.y = rowBottom + 6;
+    }
+
+    w.heading('Verdicts', 3);
+    assetJudgments.forEach(j => writePdfScorecard(w, j, personaOf(j.personaId),
+      state.includeInterviews ? interviewOf(state, j.personaId, j.assetId) : []));
+  });
+
+  if (state.usage.length) {
+    const total = totalUsage(state.usage);
+    const usageRow = (label: string, g: UsageTotals) => [label, `${g.calls}`, formatTokens(g.inputTokens), formatTokens(g.outputTokens), formatCost(g.cost)];
+    const options = { widths: [w.contentWidth - 100, 16, 28, 28, 28], align: ['left', 'right', 'right', 'right', 'right'] as ('left' | 'right')[] };
+    w.heading('Token Usage and Cost', 1);
+    w.text(`${total.calls} model calls priced per model (${[...new Set(state.usage.map(r => r.model))].join(', ')}). Failed calls are not counted.`, { color: PDF_COLORS.muted, gap: 4 });
+    w.table(['Stage', 'Calls', 'Input', 'Output', 'Cost'],
+      [...usageBy(state.usage, r => r.stage).map(g => usageRow(usageLabel(g.key as UsageRecord['stage']), g)), usageRow('Total', total)],
+      options);
+    const byPersona = usageBy(state.usage, r => r.personaId);
+    if (byPersona.length) {
+      w.table(['Persona', 'Calls', 'Input', 'Output', 'Cost'],
+        byPersona.map(g => usageRow(personaOf(g.key)?.name || g.key, g)),
+        options);
+    }
+  }
+
+  // Contents, now that every section knows its page
+  doc.setPage(PDF_TOC_PAGE);
+  w.y = PDF_MARGIN;
+  w.font(18, 'bold');
+  doc.text('Contents', PDF_MARGIN, w.y, { baseline: 'top' });
+  w.y += 14;
+  // A run would need ~60 sections before the contents outgrow one page
+  for (const entry of w.toc) {
+    if (w.y > w.pageHeight - PDF_MARGIN - 10) break;
+    const indent = entry.level === 1 ? 0 : 6;
+    const size = entry.level === 1 ? 10.5 : 9;
+    w.font(size, entry.level === 1 ? 'bold' : 'normal', entry.level === 1 ? PDF_COLORS.ink : PDF_COLORS.muted);
+    const title = w.wrap(entry.title, w.contentWidth - indent - 16)[0];
+    doc.text(title, PDF_MARGIN + indent, w.y, { baseline: 'top' });
+    doc.text(String(entry.page), PDF_MARGIN + w.contentWidth, w.y, { baseline: 'top', align: 'right' });
+    doc.link(PDF_MARGIN, w.y - 1, w.contentWidth, w.lineHeight(size) + 1, { pageNumber: entry.page });
+    w.y += w.lineHeight(size) + (entry.level === 1 ? 2.5 : 1);
+  }
+
+  // Footer on every page but the cover
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    w.font(7.5, 'normal', PDF_COLORS.muted);
+    w.draw(`CREATIVE COUNCIL · ${brand.name.toUpperCase()}`, PDF_MARGIN, w.pageHeight - PDF_MARGIN + 4, { baseline: 'top' });
+    doc.text(`Page ${page} of ${pages}`, w.pageWidth - PDF_MARGIN, w.pageHeight - PDF_MARGIN + 4, { baseline: 'top', align: 'right' });
+  }
+
+  return doc;
+};
+
+// --- Offline HTML Report ---
+// Rendered to static markup with the assets inlined, then brought to life by a small
+// inline script, so the file works from an email attachment with no app or API key.
+
+const OFFLINE_REPORT_SCRIPT = `
+document.querySelectorAll('.scorecard').forEach(function (card) {
+  card.classList.add('collapsible');
+  card.addEventListener('click', function () { card.classList.toggle('expanded'); });
+});
+var expandAll = document.querySelector('.offline-expand-all');
+if (expandAll) expandAll.addEventListener('click', function () {
+  var cards = document.querySelectorAll('.scorecard');
+  var expand = Array.prototype.some.call(cards, function (card) { return !card.classList.contains('expanded'); });
+  cards.forEach(function (card) { card.classList.toggle('expanded', expand); });
+  expandAll.textContent = expand ? 'Collapse all verdicts' : 'Expand all verdicts';
+});
+document.querySelectorAll('.language-toggle').forEach(function (toggle) {
+  toggle.addEventListener('click', function (event) {
+    event.stopPropagation();
+    var versions = toggle.closest('.scorecard').querySelectorAll('.score-reaction');
+    versions.forEach(function (version) { version.hidden = !version.hidden; });
+    toggle.textContent = versions[0].hidden ? toggle.getAttribute('data-show-original') : 'Show English';
+  });
+});
+document.querySelectorAll('.attention-marker[data-seconds]').forEach(function (marker) {
+  marker.addEventListener('click', function () {
+    var video = marker.closest('.offline-asset').querySelector('video');
+    video.currentTime = Number(marker.getAttribute('data-seconds'));
+    video.play();
+  });
+});
+`;
+
+// Cross-origin sheets (the web font) can't be read; the report falls back to system fonts
+const collectDocumentCss = () => Array.from(document.styleSheets).map(sheet => {
+  try {
+    return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+  } catch {
+    return '';
+  }
+}).join('\n');
+
+const OfflineReport: FC<{ state: AppState; assets: Asset[]; durations: Record<string, number> }> = ({ state, assets, durations }) => {
+  const brand = state.brandProfile!;
+
+  return (
+    <div className="offline-report">
+      <header className="offline-header">
+        <div className="offline-kicker">Creative Council • Strategic Analysis</div>
+        <h1>{brand.name}</h1>
+        <div className="offline-meta">
+          {state.url} • {state.markets.join(', ')} • {new Date(state.runStartedAt || Date.now()).toLocaleDateString()}
+        </div>
+      </header>
+
+      <BrandSection brand={brand} />
+      {state.brief && <BriefSection brief={state.brief} />}
+
+      <h2 className="section-title" style={{marginTop: '2rem'}}>The Council</h2>
+      <div className="persona-grid">
+        {state.personas.map(p => <PersonaCard key={p.id} persona={p} />)}
+      </div>
+
+      <div className="section-title-row">
+        <h2 className="section-title" style={{marginTop: '2rem'}}>Verdicts</h2>
+        <button className="secondary-btn offline-expand-all">Expand all verdicts</button>
+      </div>
+      {assets.map((asset, ai) => {
+        const assetJudgments = state.judgments.filter(j => j.assetId === asset.id);
+        if (!assetJudgments.length) return null;
+        const reactions = collectTimelineReactions(state.judgments, state.personas, asset.id);
+        return (
+          <div key={asset.id} className="asset-verdict-group offline-asset">
+            <div className="asset-verdict-info">
+              <span className="asset-verdict-index">Execution {ai + 1}{asset.variant ? ` • Variant ${asset.variant}` : ''}</span>
+              <h3>{asset.file.name} — Avg. {averageScore(assetJudgments)}</h3>
+              {isVideoAsset(asset) && <span className="asset-verdict-media">Judged from {judgedFrom(asset)?.toLowerCase()}</span>}
+            </div>
+            <div className="offline-media">
+              {asset.mimeType.startsWith('video') ? (
+                <video src={asset.previewUrl} controls preload="metadata" />
+              ) : (
+                <img src={asset.previewUrl} alt={asset.file.name} />
+              )}
+            </div>
+            {reactions.length > 0 && (
+              // Marker clicks are wired up by the inline script; the handler only enables them
+              <AttentionTimeline reactions={reactions} duration={Math.max(durations[asset.id] || 0, ...reactions.map(r => r.seconds))} onSeek={() => undefined} />
+            )}
+            {assetJudgments.map(j => {
+              const persona = state.personas.find(p => p.id === j.personaId);
+              return persona && (
+                <Scorecard
+                  key={`${j.personaId}-${j.assetId}`}
+                  judgment={j}
+                  persona={persona}
+                  interview={state.includeInterviews ? interviewOf(state, j.personaId, j.assetId) : undefined}
+                />
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <h2 className="section-title" style={{marginTop: '2rem'}}>Executive Brief</h2>
+      <div className="report-paper">
+        <AnalyticsDashboard judgments={state.judgments} personas={state.personas} assets={assets} />
+        <StatisticsTables judgments={state.judgments} personas={state.personas} assets={assets} />
+        <MarketComparison judgments={state.judgments} personas={state.personas} assets={assets} markets={state.markets} />
+        <BriefFitDashboard briefFits={state.briefFits} assets={assets} />
+        <PaletteCompliance paletteChecks={state.paletteChecks} assets={assets} brandColors={brand.brandColors} />
+        <ComparisonDashboard comparisons={state.comparisons} personas={state.personas} assets={assets} />
+        <DebateDashboard judgments={state.judgments} personas={state.personas} assets={assets} debate={state.debate} />
+        {state.finalReport && (
+          <div className="synthesis-content">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{state.finalReport}</ReactMarkdown>
+          </div>
+        )}
+        <CostBreakdown usage={state.usage} personas={state.personas} />
+      </div>
+    </div>
+  );
+};
+
+const buildOfflineReportHtml = async (state: AppState) => {
+  const assets = await Promise.all(state.assets.map(async a => ({ ...a, previewUrl: await blobToDataUrl(a.file) })));
+  const durations: Record<string, number> = {};
+  for (const asset of state.assets.filter(a => a.mimeType.startsWith('video'))) {
+    durations[asset.id] = await captureVideoFrames(asset.previewUrl, []).then(r => r.duration).catch(() => 0);
+  }
+  const body = renderToStaticMarkup(<OfflineReport state={state} assets={assets} durations={durations} />);
+  const title = `${state.brandProfile?.name || 'Report'} — Creative Council`.replace(/</g, '&lt;');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title}</title>
+<style>${collectDocumentCss()}</style>
+</head>
+<body class="offline-body">
+${body}
+<script>${OFFLINE_REPORT_SCRIPT}</script>
+</body>
+</html>`;
+};
+
+const StageGenerationEditor: FC<{
+  generation: Record<GenerationStage, StageGeneration>;
+  defaultModel: string;
+  showThinking: boolean;
+  onChange: (generation: Record<GenerationStage, StageGeneration>) => void;
+}> = ({ generation, defaultModel, showThinking, onChange }) => {
+  const update = (stage: GenerationStage, patch: Partial<StageGeneration>) =>
+    onChange({ ...generation, [stage]: { ...generation[stage], ...patch } });
+  // Empty number fields mean "provider default", so they map to undefined rather than 0
+  const numberValue = (value: string) => value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+  return (
+    <div className={`stage-generation ${showThinking ? 'with-thinking' : ''}`}>
+      <div className="stage-generation-row price-head">
+        <span>Stage</span><span>Model</span><span>Temp.</span><span>Top-p</span>{showThinking && <span>Thinking</span>}
+      </div>
+      {GENERATION_STAGES.map(stage => (
+        <div key={stage} className="stage-generation-row">
+          <span className="price-model" title={GENERATION_STAGE_LABELS[stage]}>{GENERATION_STAGE_LABELS[stage]}</span>
+          <input className="text-input" placeholder={defaultModel} value={generation[stage].model}
+            onChange={(e) => update(stage, { model: e.target.value })} />
+          <input type="number" className="text-input" min="0" max="2" step="0.1" placeholder="–" value={generation[stage].temperature ?? ''}
+            onChange={(e) => update(stage, { temperature: numberValue(e.target.value) })} />
+          <input type="number" className="text-input" min="0" max="1" step="0.05" placeholder="–" value={generation[stage].topP ?? ''}
+            onChange={(e) => update(stage, { topP: numberValue(e.target.value) })} />
+          {showThinking && (
+            <input type="number" className="text-input" min="0" step="1024" placeholder="–" value={generation[stage].thinkingBudget ?? ''}
+              onChange={(e) => update(stage, { thinkingBudget: numberValue(e.target.value) })} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const PriceTableEditor: FC<{ prices: PriceTable; onChange: (prices: PriceTable) => void }> = ({ prices, onChange }) => {
+  const [model, setModel] = useState('');
+
+  const update = (name: string, patch: Partial<ModelPrice>) =>
+    onChange({ ...prices, [name]: { ...prices[name], ...patch } });
+  const remove = (name: string) => onChange(Object.fromEntries(Object.entries(prices).filter(([k]) => k !== name)));
+  const add = () => {
+    const name = model.trim();
+    if (name && !prices[name]) onChange({ ...prices, [name]: { input: 0, output: 0 } });
+    setModel('');
+  };
+
+  return (
+    <div className="price-table">
+      <div className="price-row price-head"><span>Model</span><span>Input</span><span>Output</span><span></span></div>
+      {Object.entries(prices).map(([name, price]) => (
+        <div key={name} className="price-row">
+          <span className="price-model" title={name}>{name}</span>
+          <input type="number" className="text-input" min="0" step="0.01" value={price.input}
+            onChange={(e) => update(name, { input: Math.max(0, parseFloat(e.target.value) || 0) })} />
+          <input type="number" className="text-input" min="0" step="0.01" value={price.output}
+            onChange={(e) => update(name, { output: Math.max(0, parseFloat(e.target.value) || 0) })} />
+          <button className="price-btn" onClick={() => remove(name)} title="Remove">×</button>
+        </div>
+      ))}
+      <div className="price-row">
+        <input className="text-input price-new" placeholder="Add a model..." value={model}
+          onChange={(e) => setModel(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }} />
+        <button className="price-btn" onClick={add} title="Add">+</button>
+      </div>
+    </div>
+  );
+};
+
+const SettingsModal: FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+}> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  if (!isOpen) return null;
+
+  const providerIds = Object.keys(PROVIDER_LABELS) as ProviderId[];
+  const unpricedModels = [...new Set(GENERATION_STAGES.map(stage => stageModel(draft, stage)))].filter(model => !draft.prices[model]);
 
   return (
     <div className="lightbox-overlay" style={{zIndex: 2000}} onClick={onClose}>
@@ -785,27 +5938,143 @@ const SettingsModal: FC<{
         </div>
         <div className="settings-body">
           <div className="input-group">
-            <label className="input-label">Gemini API Key</label>
-            <input 
-              type="password" 
-              className="text-input" 
-              placeholder="Enter your Gemini API Key"
-              value={key}
-              onChange={(e) => setKey(e.target.value)}
+            <label className="input-label">Model Provider</label>
+            <CustomSelect
+              value={PROVIDER_LABELS[draft.provider]}
+              options={providerIds.map(id => PROVIDER_LABELS[id])}
+              onChange={(label) => setDraft({ ...draft, provider: providerIds.find(id => PROVIDER_LABELS[id] === label) || 'gemini' })}
+              disabled={false}
             />
+          </div>
+
+          {draft.provider === 'gemini' && (
+            <div className="input-group">
+              <label className="input-label">Gemini API Key</label>
+              <input 
+                type="password" 
+                className="text-input" 
+                placeholder="Enter your Gemini API Key"
+                value={draft.geminiApiKey}
+                onChange={(e) => setDraft({ ...draft, geminiApiKey: e.target.value })}
+              />
+              <p className="input-help">
+                Your API key is stored locally in your browser. 
+                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer"> Get a key here</a>.
+              </p>
+            </div>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <div className="input-group">
+                <label className="input-label">Base URL</label>
+                <input
+                  type="text"
+                  className="text-input"
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  value={draft.openaiBaseUrl}
+                  onChange={(e) => setDraft({ ...draft, openaiBaseUrl: e.target.value })}
+                />
+              </div>
+              <div className="input-group">
+                <label className="input-label">Model</label>
+                <input
+                  type="text"
+                  className="text-input"
+                  placeholder="llama3.2-vision"
+                  value={draft.openaiModel}
+                  onChange={(e) => setDraft({ ...draft, openaiModel: e.target.value })}
+                />
+              </div>
+              <div className="input-group">
+                <label className="input-label">API Key (Optional)</label>
+                <input
+                  type="password"
+                  className="text-input"
+                  placeholder="Leave empty for local servers"
+                  value={draft.openaiApiKey}
+                  onChange={(e) => setDraft({ ...draft, openaiApiKey: e.target.value })}
+                />
+                <p className="input-help">
+                  Any endpoint that speaks the OpenAI chat-completions API. Web search is not available,
+                  and only image assets are sent to the model.
+                </p>
+              </div>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <div className="input-group">
+              <p className="input-help">
+                Runs the full pipeline offline with deterministic fixture responses. No API key needed.
+                Useful for demos and testing; the results are not real model output.
+              </p>
+            </div>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div className="input-group">
+              <label className="input-label">Generation per Stage</label>
+              <StageGenerationEditor
+                generation={draft.generation}
+                defaultModel={activeModel(draft)}
+                showThinking={draft.provider === 'gemini'}
+                onChange={(generation) => setDraft({ ...draft, generation })}
+              />
+              <p className="input-help">
+                Leave a field empty to use the provider's default. Each run records the settings it used.
+              </p>
+            </div>
+          )}
+
+          <div className="input-group">
+            <label className="input-label">Request Pool</label>
+            <div className="concurrency-row">
+              <label>
+                Max parallel
+                <input
+                  type="number"
+                  className="text-input"
+                  min={1}
+                  max={32}
+                  value={draft.concurrency.maxParallel}
+                  onChange={(e) => setDraft({ ...draft, concurrency: { ...draft.concurrency, maxParallel: Math.max(1, parseInt(e.target.value) || 1) } })}
+                />
+              </label>
+              <label>
+                Requests / min
+                <input
+                  type="number"
+                  className="text-input"
+                  min={0}
+                  value={draft.concurrency.requestsPerMinute}
+                  onChange={(e) => setDraft({ ...draft, concurrency: { ...draft.concurrency, requestsPerMinute: Math.max(0, parseInt(e.target.value) || 0) } })}
+                />
+              </label>
+            </div>
+            <p className="input-help">
+              Persona calls queue behind these limits; 0 requests per minute means no cap. When the API rate-limits a call,
+              every queued request pauses and backs off before trying again.
+            </p>
+          </div>
+
+          <div className="input-group">
+            <label className="input-label">Price Table (USD per 1M tokens)</label>
+            <PriceTableEditor prices={draft.prices} onChange={(prices) => setDraft({ ...draft, prices })} />
             <p className="input-help">
-              Your API key is stored locally in your browser. 
-              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer"> Get a key here</a>.
+              Used for the cost breakdown and the budget estimate. Calls to a model missing from the table count as free
+              {unpricedModels.length ? `; ${unpricedModels.join(', ')} has no price yet.` : '.'}
             </p>
           </div>
+
           <button 
             className="primary-btn" 
             onClick={() => {
-              onSave(key);
+              onSave(draft);
               onClose();
             }}
           >
-            Save API Key
+            Save Settings
           </button>
         </div>
       </div>
@@ -813,37 +6082,836 @@ const SettingsModal: FC<{
   );
 };
 
-// --- Main Application ---
+const PersonaEditor: FC<{
+  persona: Persona;
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+}> = ({ persona, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(persona);
+  const [painPointsText, setPainPointsText] = useState(persona.painPoints.join('\n'));
+
+  return (
+    <div className="persona-editor">
+      <div className="editor-grid">
+        <div className="input-group">
+          <label className="input-label">Name</label>
+          <input className="text-input" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+        </div>
+        <div className="input-group">
+          <label className="input-label">Age</label>
+          <input type="number" className="text-input" value={draft.age} onChange={e => setDraft({ ...draft, age: parseInt(e.target.value) || 0 })} />
+        </div>
+        <div className="input-group">
+          <label className="input-label">Gender</label>
+          <input className="text-input" value={draft.gender || ''} onChange={e => setDraft({ ...draft, gender: e.target.value })} />
+        </div>
+        <div className="input-group">
+          <label className="input-label">Occupation</label>
+          <input className="text-input" value={draft.occupation} onChange={e => setDraft({ ...draft, occupation: e.target.value })} />
+        </div>
+        <div className="input-group">
+          <label className="input-label">Location</label>
+          <input className="text-input" value={draft.location || ''} onChange={e => setDraft({ ...draft, location: e.target.value })} />
+        </div>
+        <div className="input-group">
+          <label className="input-label">Area</label>
+          <CustomSelect
+            value={draft.locationType || 'Unspecified'}
+            options={['Unspecified', ...LOCATION_TYPES]}
+            onChange={(value) => setDraft({ ...draft, locationType: toLocationType(value) })}
+            disabled={false}
+          />
+        </div>
+        <div className="input-group full-width">
+          <label className="input-label">Household</label>
+          <input className="text-input" value={draft.household || ''} onChange={e => setDraft({ ...draft, household: e.target.value })} />
+        </div>
+        <div className="input-group full-width">
+          <label className="input-label">Bio</label>
+          <textarea className="text-input" rows={3} value={draft.bio} onChange={e => setDraft({ ...draft, bio: e.target.value })} />
+        </div>
+        <div className="input-group full-width">
+          <label className="input-label">Emotional Drivers / Frustrations (one per line)</label>
+          <textarea className="text-input" rows={3} value={painPointsText} onChange={e => setPainPointsText(e.target.value)} />
+        </div>
+      </div>
+      <div className="editor-actions">
+        <button className="secondary-btn" onClick={onCancel}>Cancel</button>
+        <button
+          className="secondary-btn primary"
+          disabled={!draft.name.trim()}
+          onClick={() => onSave({ ...draft, painPoints: painPointsText.split('\n').map(v => v.trim()).filter(Boolean) })}
+        >
+          Save Persona
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TemplateDiff: FC<{ title: string; before: string; after: string; onClose: () => void }> = ({ title, before, after, onClose }) => {
+  const lines = diffLines(before, after);
+  const changed = lines.filter(l => l.type !== 'same').length;
+  // Unchanged lines more than two away from a change are folded away
+  const near = (i: number) => lines.slice(Math.max(0, i - 2), i + 3).some(l => l.type !== 'same');
+
+  return (
+    <div className="template-diff">
+      <div className="template-diff-header">
+        <strong>{title}</strong>
+        <span className="input-help">{changed ? `${changed} changed ${changed === 1 ? 'line' : 'lines'}` : 'No differences'}</span>
+        <button className="close-btn" onClick={onClose}>×</button>
+      </div>
+      <pre className="template-diff-body">
+        {lines.map((line, i) => near(i)
+          ? <div key={i} className={`diff-line ${line.type}`}>{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}</div>
+          : near(i - 1) ? <div key={i} className="diff-line fold">⋯</div> : null)}
+      </pre>
+    </div>
+  );
+};
+
+const PromptTemplateModal: FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  store: PromptTemplateStore;
+  onChange: (store: PromptTemplateStore) => void;
+  locked: boolean; // While a run is in progress
+}> = ({ isOpen, onClose, store, onChange, locked }) => {
+  const [selected, setSelected] = useState<TemplateName>('judgment');
+  const [draft, setDraft] = useState(() => activeTemplate(store, 'judgment'));
+  const [note, setNote] = useState('');
+  const [diff, setDiff] = useState<{ title: string; before: string; after: string } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const activeVersion = store.active[selected] || 0;
+
+  // Switching templates or versions loads the active text into the editor
+  useEffect(() => {
+    setDraft(activeTemplate(store, selected));
+    setDiff(null);
+  }, [selected, activeVersion]);
+
+  if (!isOpen) return null;
+
+  const versions = templateVersions(store, selected);
+  const saved = activeTemplate(store, selected);
+  const problems = templateProblems(selected, draft);
+  const dirty = draft !== saved;
+  const versionLabel = (version: number) => version ? `v${version}` : `Built-in (v${PROMPT_VERSIONS[selected]})`;
+
+  const selectTemplate = (name: TemplateName) => {
+    if (dirty && !confirm(`Discard unsaved changes to the ${TEMPLATE_LABELS[selected]} template?`)) return;
+    setSelected(name);
+  };
+
+  const activate = (version: number) => {
+    const active = { ...store.active };
+    if (version) active[selected] = version;
+    else delete active[selected];
+    onChange({ ...store, active });
+  };
+
+  const saveVersion = () => {
+    const version = Math.max(0, ...versions.map(v => v.version)) + 1;
+    onChange({
+      versions: [...store.versions, { template: selected, version, text: draft, note: note.trim(), savedAt: Date.now() }],
+      active: { ...store.active, [selected]: version }
+    });
+    setNote('');
+  };
+
+  const removeVersion = (version: number) => {
+    if (!confirm(`Delete ${TEMPLATE_LABELS[selected]} v${version}? Runs that used it keep a copy of its text.`)) return;
+    onChange({ ...store, versions: store.versions.filter(v => !(v.template === selected && v.version === version)) });
+  };
+
+  // Each saved version is compared with the one before it, or with the built-in prompt for the first
+  const showVersionDiff = (version: number) => {
+    const previous = versions.find(v => v.version < version)?.version || 0;
+    setDiff({
+      title: `${versionLabel(previous)} → v${version}`,
+      before: templateText(store, selected, previous),
+      after: templateText(store, selected, version)
+    });
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? draft.length;
+    const end = textarea?.selectionEnd ?? draft.length;
+    setDraft(draft.slice(0, start) + placeholder + draft.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  return (
+    <div className="lightbox-overlay" style={{zIndex: 2000}} onClick={onClose}>
+      <div className="settings-modal library-modal template-modal" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h3>Prompt Templates</h3>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="template-tabs">
+          {TEMPLATE_NAMES.map(name => (
+            <button key={name} className={`template-tab ${name === selected ? 'active' : ''}`} onClick={() => selectTemplate(name)}>
+              {TEMPLATE_LABELS[name]}
+              <span className={`template-badge ${store.active[name] ? 'custom' : ''}`}>{store.active[name] ? `v${store.active[name]}` : 'Default'}</span>
+            </button>
+          ))}
+        </div>
+        {locked && <p className="input-help">Templates are read-only while a run is in progress.</p>}
+
+        <div className="template-layout">
+          <div className="template-main">
+            <textarea
+              ref={textareaRef}
+              className="text-input template-textarea"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              spellCheck={false}
+              disabled={locked}
+            />
+            {problems.length > 0 && (
+              <ul className="template-problems">
+                {problems.map(p => <li key={p}>{p}</li>)}
+              </ul>
+            )}
+            <div className="template-actions">
+              <input
+                type="text"
+                className="text-input"
+                placeholder="What changed? (optional)"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                disabled={locked}
+              />
+              <button className="secondary-btn" disabled={!dirty} onClick={() => setDiff({ title: `${versionLabel(activeVersion)} → unsaved`, before: saved, after: draft })}>
+                Show Changes
+              </button>
+              <button className="secondary-btn" disabled={!dirty} onClick={() => setDraft(saved)}>Discard</button>
+              <button className="secondary-btn primary" disabled={locked || !dirty || problems.length > 0} onClick={saveVersion}>Save Version</button>
+            </div>
+            {diff && <TemplateDiff {...diff} onClose={() => setDiff(null)} />}
+          </div>
+
+          <aside className="template-sidebar">
+            <h4 className="library-subtitle">Variables</h4>
+            <ul className="template-variables">
+              {Object.entries(TEMPLATE_VARIABLES[selected]).map(([name, description]) => (
+                <li key={name}>
+                  <button onClick={() => insertVariable(name)} disabled={locked} title="Insert at the cursor">{`{{${name}}}`}</button>
+                  <span>{description}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="input-help">{'Wrap optional text in {{#if name}}…{{else}}…{{/if}}; it is kept only when the variable is non-empty.'}</p>
+
+            <h4 className="library-subtitle">Versions</h4>
+            <ul className="template-versions">
+              {versions.map(v => (
+                <li key={v.version} className={v.version === activeVersion ? 'active' : ''}>
+                  <div className="template-version-info">
+                    <strong>v{v.version}</strong>
+                    <span>{new Date(v.savedAt).toLocaleString()}</span>
+                    {v.note && <em>{v.note}</em>}
+                  </div>
+                  <div className="history-actions">
+                    <button onClick={() => showVersionDiff(v.version)}>Diff</button>
+                    {v.version !== activeVersion && <button onClick={() => activate(v.version)} disabled={locked}>Use</button>}
+                    {v.version !== activeVersion && <button className="danger" onClick={() => removeVersion(v.version)} disabled={locked}>Delete</button>}
+                  </div>
+                </li>
+              ))}
+              <li className={activeVersion === 0 ? 'active' : ''}>
+                <div className="template-version-info">
+                  <strong>{versionLabel(0)}</strong>
+                  <span>Shipped with the app</span>
+                </div>
+              </li>
+            </ul>
+            <button className="secondary-btn" disabled={locked || activeVersion === 0} onClick={() => activate(0)}>
+              Reset to Default
+            </button>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PersonaLibraryModal: FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  personas: LibraryPersona[];
+  councils: SavedCouncil[];
+  onChange: () => void;
+}> = ({ isOpen, onClose, personas, councils, onChange }) => {
+  const [editing, setEditing] = useState<LibraryPersona | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [councilName, setCouncilName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id]);
+
+  const exportTargets = selectedIds.length ? personas.filter(p => selectedIds.includes(p.id)) : personas;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const imported = file.name.toLowerCase().endsWith('.csv')
+        ? { personas: personasFromCsv(text), councils: [] }
+        : parsePersonaLibraryJson(text);
+      // Incoming ids are kept unless missing or already in the library, so nothing stored is overwritten;
+      // imported councils follow their members to any new id
+      const takenIds = new Set(personas.map(p => p.id));
+      const idMap = new Map<string, string>();
+      for (const p of imported.personas) {
+        const id = p.id && !takenIds.has(p.id) ? p.id : createLibraryId();
+        takenIds.add(id);
+        if (p.id && !idMap.has(p.id)) idMap.set(p.id, id);
+        await PersonaLibraryStore.savePersona({
+          ...p,
+          id,
+          painPoints: p.painPoints || [],
+          savedAt: Date.now(),
+          updatedAt: Date.now()
+        });
+      }
+      const takenCouncilIds = new Set(councils.map(c => c.id));
+      for (const c of imported.councils) {
+        const id = c.id && !takenCouncilIds.has(c.id) ? c.id : createLibraryId();
+        takenCouncilIds.add(id);
+        await PersonaLibraryStore.saveCouncil({ ...c, id, personaIds: c.personaIds.map(pid => idMap.get(pid) || pid) });
+      }
+      alert(`Imported ${imported.personas.length} personas and ${imported.councils.length} councils.`);
+      onChange();
+    } catch (err) {
+      console.error('Persona import failed', err);
+      alert('Could not import that file. Expected a persona JSON export or a CSV with id, name, age, occupation, bio, painPoints columns.');
+    }
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  const createCouncil = async () => {
+    if (!councilName.trim() || !selectedIds.length) return;
+    await PersonaLibraryStore.saveCouncil({ id: createLibraryId(), name: councilName.trim(), personaIds: selectedIds, createdAt: Date.now() });
+    setCouncilName('');
+    onChange();
+  };
+
+  return (
+    <div className="lightbox-overlay" style={{zIndex: 2000}} onClick={onClose}>
+      <div className="settings-modal library-modal" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h3>Persona Library</h3>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        {editing ? (
+          <PersonaEditor
+            persona={editing}
+            onCancel={() => setEditing(null)}
+            onSave={async (persona) => {
+              await PersonaLibraryStore.savePersona({ ...editing, ...persona, updatedAt: Date.now() });
+              setEditing(null);
+              onChange();
+            }}
+          />
+        ) : (
+          <>
+            <div className="library-toolbar">
+              <button
+                className="secondary-btn"
+                onClick={() => setEditing(toLibraryPersona({ id: '', name: '', age: 30, occupation: '', bio: '', painPoints: [] }))}
+              >
+                + New Persona
+              </button>
+              <button className="secondary-btn" onClick={() => importInputRef.current?.click()}>Import JSON / CSV</button>
+              <input type="file" ref={importInputRef} accept=".json,.csv" style={{display: 'none'}} onChange={handleImport} />
+              <button
+                className="secondary-btn"
+                disabled={!personas.length}
+                onClick={() => downloadFile('persona-library.json', JSON.stringify({
+                  version: 1,
+                  personas: exportTargets.map(fromLibraryPersona),
+                  councils: councils.filter(c => c.personaIds.some(id => exportTargets.some(p => p.id === id)))
+                }, null, 2), 'application/json')}
+              >
+                Export JSON
+              </button>
+              <button
+                className="secondary-btn"
+                disabled={!personas.length}
+                onClick={() => downloadFile('persona-library.csv', personasToCsv(exportTargets), 'text/csv')}
+              >
+                Export CSV
+              </button>
+            </div>
+            <p className="input-help">
+              {selectedIds.length ? `${selectedIds.length} selected — exports and new councils use the selection.` : 'Select personas to export a subset or group them into a council.'}
+            </p>
+
+            <div className="library-list">
+              {personas.length === 0 && <p className="input-help">No saved personas yet. Save them from a finished run or create one here.</p>}
+              {personas.map(p => (
+                <div key={p.id} className={`library-item ${selectedIds.includes(p.id) ? 'selected' : ''}`}>
+                  <input type="checkbox" checked={selectedIds.includes(p.id)} onChange={() => toggleSelected(p.id)} />
+                  <div className="library-item-info">
+                    <strong>{p.name}</strong>
+                    <span>{p.age} • {p.occupation}</span>
+                  </div>
+                  <div className="history-actions">
+                    <button onClick={() => setEditing(p)}>Edit</button>
+                    <button
+                      onClick={async () => {
+                        await PersonaLibraryStore.savePersona({ ...toLibraryPersona(fromLibraryPersona(p)), name: `${p.name} (copy)` });
+                        onChange();
+                      }}
+                    >
+                      Clone
+                    </button>
+                    <button
+                      className="danger"
+                      onClick={async () => {
+                        if (!confirm(`Delete ${p.name} from the library?`)) return;
+                        await PersonaLibraryStore.removePersona(p.id);
+                        setSelectedIds(prev => prev.filter(v => v !== p.id));
+                        onChange();
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <h4 className="library-subtitle">Councils</h4>
+            <div className="library-council-form">
+              <input
+                className="text-input"
+                placeholder="Council name"
+                value={councilName}
+                onChange={e => setCouncilName(e.target.value)}
+              />
+              <button className="secondary-btn" disabled={!councilName.trim() || !selectedIds.length} onClick={createCouncil}>
+                Group {selectedIds.length || ''} Selected
+              </button>
+            </div>
+            <div className="library-list">
+              {councils.map(c => (
+                <div key={c.id} className="library-item">
+                  <div className="library-item-info">
+                    <strong>{c.name}</strong>
+                    <span>{c.personaIds.filter(id => personas.some(p => p.id === id)).length} members</span>
+                  </div>
+                  <div className="history-actions">
+                    <button onClick={() => setSelectedIds(c.personaIds)}>Select Members</button>
+                    <button
+                      className="danger"
+                      onClick={async () => {
+                        if (!confirm(`Delete council "${c.name}"? Its personas stay in the library.`)) return;
+                        await PersonaLibraryStore.removeCouncil(c.id);
+                        onChange();
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const HistorySidebar: FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  runs: SavedRun[];
+  currentRunId: string | null;
+  disabled: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}> = ({ isOpen, onClose, runs, currentRunId, disabled, onOpen, onRename, onDelete, onExport, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="lightbox-overlay history-overlay" style={{zIndex: 1500}} onClick={onClose}>
+      <aside className="history-sidebar" onClick={e => e.stopPropagation()}>
+        <div className="settings-header">
+          <h3>Run History</h3>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+        <div className="history-toolbar">
+          <button className="secondary-btn" onClick={() => importInputRef.current?.click()} disabled={disabled}>
+            Import JSON
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {runs.length === 0 ? (
+          <p className="input-help">Completed runs are saved here automatically.</p>
+        ) : (
+          <div className="history-list">
+            {runs.map(run => (
+              <div key={run.id} className={`history-item ${run.id === currentRunId ? 'current' : ''}`}>
+                {editingId === run.id ? (
+                  <input
+                    className="text-input"
+                    value={draftName}
+                    autoFocus
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <h4 className="history-name">{run.name}</h4>
+                )}
+                <div className="history-meta">
+                  {new Date(run.createdAt).toLocaleString()} • {run.country} • {run.assets.length} assets • Avg. {averageScore(run.judgments)}
+                </div>
+                <div className="history-actions">
+                  <button onClick={() => onOpen(run.id)} disabled={disabled}>Open</button>
+                  <button onClick={() => { setEditingId(run.id); setDraftName(run.name); }}>Rename</button>
+                  <button onClick={() => onExport(run.id)} disabled={disabled}>PDF</button>
+                  <button
+                    className="danger"
+                    onClick={() => confirm(`Delete "${run.name}"? This cannot be undone.`) && onDelete(run.id)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+// --- Main Application ---
+
+const createInitialState = (providerSettings: ProviderSettings, customMarkets: Market[], promptTemplates: PromptTemplateStore): AppState => ({
+  status: 'idle',
+  reviewMode: false,
+  reviewStage: null,
+  failedStage: null,
+  stageError: '',
+  failedJudgments: [],
+  retryingPersonaIds: [],
+  personaJobs: {},
+  synthesisStale: false,
+  debate: [],
+  debateRounds: 0,
+  interviews: [],
+  includeInterviews: true,
+  progress: 0,
+  logs: [],
+  isLogExpanded: false,
+  brandProfile: null,
+  briefText: '',
+  briefFile: null,
+  brief: null,
+  briefFits: [],
+  paletteChecks: [],
+  videoPreprocessing: DEFAULT_VIDEO_PREPROCESSING,
+  usage: [],
+  budget: 0,
+  budgetMode: 'warn',
+  personas: [],
+  judgments: [],
+  comparisons: [],
+  comparisonMode: false,
+  finalReport: '',
+  url: '',
+  markets: ['Vietnam'],
+  customMarkets,
+  nativeLanguage: false,
+  numPersonas: 3,
+  samplesPerPersona: 1,
+  personaSource: 'generate',
+  selectedCouncilId: null,
+  assets: [],
+  isDownloading: false,
+  currentRunId: null,
+  runStartedAt: null,
+  runSettings: null,
+  isHistoryOpen: false,
+  isLibraryOpen: false,
+  providerSettings,
+  isSettingsOpen: false,
+  promptTemplates,
+  isTemplatesOpen: false
+});
+
+const App: FC = () => {
+  const [state, setState] = useState<AppState>(() => createInitialState(loadProviderSettings(), loadCustomMarkets(), loadPromptTemplates()));
+  const [savedRuns, setSavedRuns] = useState<SavedRun[]>([]);
+  const [library, setLibrary] = useState<{ personas: LibraryPersona[]; councils: SavedCouncil[] }>({ personas: [], councils: [] });
+  const exportAfterOpen = useRef(false);
+  const prevStatus = useRef<AppState['status']>(state.status);
+
+  const [viewingAsset, setViewingAsset] = useState<Asset | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const briefInputRef = useRef<HTMLInputElement>(null);
+
+  // Clean up object URLs
+  useEffect(() => {
+    return () => {
+      state.assets.forEach(a => URL.revokeObjectURL(a.previewUrl));
+    };
+  }, []);
+
+  const refreshHistory = () => {
+    RunHistoryStore.list()
+      .then(setSavedRuns)
+      .catch(err => console.warn('Could not load run history', err));
+  };
+
+  useEffect(refreshHistory, []);
+
+  const refreshLibrary = () => {
+    Promise.all([PersonaLibraryStore.listPersonas(), PersonaLibraryStore.listCouncils()])
+      .then(([personas, councils]) => setLibrary({ personas, councils }))
+      .catch(err => console.warn('Could not load persona library', err));
+  };
+
+  useEffect(refreshLibrary, []);
+
+  const savePersonasToLibrary = async (personas: Persona[], councilName?: string) => {
+    const saved = personas.map(toLibraryPersona);
+    for (const p of saved) await PersonaLibraryStore.savePersona(p);
+    if (councilName) {
+      await PersonaLibraryStore.saveCouncil({ id: createLibraryId(), name: councilName, personaIds: saved.map(p => p.id), createdAt: Date.now() });
+    }
+    refreshLibrary();
+  };
+
+  const getCouncilPersonas = (councilId: string | null): Persona[] => {
+    const council = library.councils.find(c => c.id === councilId);
+    if (!council) return [];
+    return council.personaIds
+      .map(id => library.personas.find(p => p.id === id))
+      .filter((p): p is LibraryPersona => !!p)
+      .map(fromLibraryPersona);
+  };
+
+  // Save each completed run once; reopened runs already carry their id
+  useEffect(() => {
+    const wasSynthesizing = prevStatus.current === 'synthesizing';
+    prevStatus.current = state.status;
+    if (state.status !== 'complete' || !state.brandProfile) return;
+
+    // A refreshed synthesis overwrites the saved copy, keeping its name and creation time
+    if (state.currentRunId) {
+      if (!wasSynthesizing) return;
+      const runId = state.currentRunId;
+      RunHistoryStore.get(runId)
+        .then(existing => RunHistoryStore.save({
+          ...toSavedRun(state, runId, existing?.name || state.brandProfile!.name),
+          createdAt: existing?.createdAt || Date.now()
+        }))
+        .then(refreshHistory)
+        .catch(err => console.error('Could not update run', err));
+      return;
+    }
+
+    const id = `run-${Date.now().toString(36)}`;
+    const name = `${state.brandProfile.name} — ${new Date().toLocaleDateString()}`;
+    RunHistoryStore.save(toSavedRun(state, id, name))
+      .then(() => {
+        setState(prev => ({ ...prev, currentRunId: id }));
+        refreshHistory();
+      })
+      .catch(err => {
+        console.error('Could not save run', err);
+        addLog('SYSTEM: Could not save this run to history.');
+      });
+  }, [state.status]);
+
+  // Palette compliance is local and deterministic, so it is recomputed whenever the brand
+  // colors or the assets change instead of being stored with the run
+  const paletteKey = JSON.stringify([state.brandProfile?.brandColors || [], state.assets.map(a => a.id)]);
+  useEffect(() => {
+    const brandColors = state.brandProfile?.brandColors || [];
+    if (!brandColors.length || !state.assets.length) {
+      setState(prev => prev.paletteChecks.length ? { ...prev, paletteChecks: [] } : prev);
+      return;
+    }
+    let cancelled = false;
+    computePaletteChecks(state.assets, brandColors).then(paletteChecks => {
+      if (!cancelled) setState(prev => ({ ...prev, paletteChecks }));
+    });
+    return () => { cancelled = true; };
+  }, [paletteKey]);
+
+  // Interview transcripts, and the tokens they cost, grow after the run is saved; write them back as they change
+  useEffect(() => {
+    if (!state.currentRunId) return;
+    const runId = state.currentRunId;
+    RunHistoryStore.get(runId)
+      .then(existing => {
+        if (!existing) return;
+        if (JSON.stringify(existing.interviews || []) === JSON.stringify(state.interviews)
+          && (existing.usage || []).length === state.usage.length) return;
+        return RunHistoryStore.save({ ...existing, interviews: state.interviews, usage: state.usage, updatedAt: Date.now() });
+      })
+      .catch(err => console.error('Could not save interviews', err));
+  }, [state.interviews, state.usage]);
+
+  // Re-export from history waits until the reopened run has rendered
+  useEffect(() => {
+    if (exportAfterOpen.current && state.status === 'complete') {
+      exportAfterOpen.current = false;
+      handleDownloadReport();
+    }
+  }, [state.currentRunId]);
+
+  const openRun = async (id: string, exportPdf = false) => {
+    if (id === state.currentRunId) {
+      setState(prev => ({ ...prev, isHistoryOpen: false }));
+      if (exportPdf) handleDownloadReport();
+      return;
+    }
+    const run = await RunHistoryStore.get(id);
+    if (!run) return;
+    exportAfterOpen.current = exportPdf;
+    restoreRun(run);
+  };
+
+  // Shows a saved or imported run exactly as it was, without calling the model
+  const restoreRun = (run: SavedRun) => {
+    state.assets.forEach(a => URL.revokeObjectURL(a.previewUrl));
+    spentRef.current = totalUsage(run.usage || []).cost;
+    budgetWarned.current = false;
+    // Custom markets the run used come back if they were deleted since
+    const missingMarkets = (run.settings?.markets || []).filter(m => m.custom && !state.customMarkets.some(c => c.name === m.name));
+    if (missingMarkets.length) saveCustomMarkets([...state.customMarkets, ...missingMarkets]);
+    setState(prev => ({
+      ...prev,
+      status: 'complete',
+      progress: 100,
+      logs: run.logs,
+      brandProfile: withBrandDefaults(run.brandProfile),
+      brief: run.brief || null,
+      briefFits: run.briefFits || [],
+      personas: run.personas,
+      judgments: run.judgments,
+      comparisons: run.comparisons || [],
+      comparisonMode: (run.comparisons || []).length > 0,
+      failedJudgments: run.failedJudgments || [],
+      debate: run.debate || [],
+      debateRounds: run.settings?.debateRounds ?? debateRoundCount(run.debate || []),
+      videoPreprocessing: run.settings?.videoPreprocessing || DEFAULT_VIDEO_PREPROCESSING,
+      interviews: run.interviews || [],
+      usage: run.usage || [],
+      personaJobs: {},
+      budget: run.settings?.budget || 0,
+      samplesPerPersona: run.settings?.samplesPerPersona || 1,
+      synthesisStale: false,
+      finalReport: run.finalReport,
+      url: run.url,
+      markets: run.markets || [run.country],
+      customMarkets: [...prev.customMarkets, ...missingMarkets],
+      nativeLanguage: run.settings?.nativeLanguage ?? false,
+      assets: assetsFromSavedRun(run),
+      currentRunId: run.id,
+      runStartedAt: run.startedAt,
+      runSettings: run.settings || null,
+      isHistoryOpen: false
+    }));
+  };
+
+  // Imported runs join the history under a fresh id so they never overwrite a local run
+  const importRun = async (file: File) => {
+    try {
+      const run = { ...(await runFromJson(await file.text())), id: `run-${Date.now().toString(36)}`, updatedAt: Date.now() };
+      await RunHistoryStore.save(run);
+      refreshHistory();
+      restoreRun(run);
+    } catch (err) {
+      console.error('Import failed', err);
+      alert(`Could not import this file. ${errorMessage(err)}`);
+    }
+  };
+
+  const exportFileName = (extension: string) =>
+    `Creative_Council_${state.brandProfile?.name.replace(/ /g, '_') || 'Report'}.${extension}`;
 
-const App: FC = () => {
-  const [state, setState] = useState<AppState>({
-    status: 'idle',
-    progress: 0,
-    logs: [],
-    isLogExpanded: false,
-    brandProfile: null,
-    personas: [],
-    judgments: [],
-    finalReport: '',
-    url: '',
-    country: 'Vietnam',
-    numPersonas: 3,
-    assets: [],
-    isDownloading: false,
-    apiKey: localStorage.getItem('gemini_api_key') || '',
-    isSettingsOpen: false
-  });
+  const handleExportJson = async () => {
+    const name = savedRuns.find(r => r.id === state.currentRunId)?.name || state.brandProfile?.name || 'Run';
+    const json = await runToJson(toSavedRun(state, state.currentRunId || `run-${Date.now().toString(36)}`, name));
+    downloadFile(exportFileName('json'), json, 'application/json');
+  };
 
-  const [videoSnapshots, setVideoSnapshots] = useState<Record<string, string>>({});
-  const [viewingAsset, setViewingAsset] = useState<Asset | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const handleExportCsv = () => downloadFile(exportFileName('csv'), judgmentsToCsv(state), 'text/csv');
 
-  // Clean up object URLs
-  useEffect(() => {
-    return () => {
-      state.assets.forEach(a => URL.revokeObjectURL(a.previewUrl));
-    };
-  }, []);
+  const handleExportMarkdown = () => {
+    try {
+      downloadFile(exportFileName('md'), runToMarkdown(state), 'text/markdown');
+    } catch (err) {
+      console.error('Markdown export failed', err);
+      alert('Failed to build the Markdown report. Please try again.');
+    }
+  };
+
+  const handleExportHtml = async () => {
+    try {
+      downloadFile(exportFileName('html'), await buildOfflineReportHtml(state), 'text/html');
+    } catch (err) {
+      console.error('HTML export failed', err);
+      alert('Failed to build the HTML report. Please try again.');
+    }
+  };
+
+  const renameRun = (id: string, name: string) => {
+    RunHistoryStore.rename(id, name).then(refreshHistory);
+  };
+
+  const deleteRun = (id: string) => {
+    RunHistoryStore.remove(id).then(refreshHistory);
+    if (state.currentRunId === id) {
+      setState(prev => ({ ...prev, currentRunId: null }));
+    }
+  };
 
   const addLog = (message: string) => {
     setState(prev => ({ ...prev, logs: [...prev.logs, message] }));
@@ -866,349 +6934,1128 @@ const App: FC = () => {
           });
       });
 
-      setState(prev => ({ 
-        ...prev, 
-        assets: [...prev.assets, ...newAssets]
+      setState(prev => ({ 
+        ...prev, 
+        assets: [...prev.assets, ...newAssets]
+      }));
+
+      // Duration and resolution drive the keyframe sampling and the strategy badge
+      newAssets.filter(isVideoAsset).forEach(asset => {
+          readVideoInfo(asset.previewUrl)
+              .then(videoInfo => setState(prev => ({
+                  ...prev,
+                  assets: prev.assets.map(a => a.id === asset.id ? { ...a, videoInfo } : a)
+              })))
+              .catch(() => addLog(`MEDIA: Could not read metadata for ${asset.file.name}.`));
+      });
+      
+      // Reset input so same files can be selected again if needed
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  // Text and Markdown briefs become editable text; PDFs stay as files for the model to read
+  const handleBriefFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (briefInputRef.current) briefInputRef.current.value = '';
+    if (!file) return;
+    if (isPdfFile(file)) {
+      setState(prev => ({ ...prev, briefFile: file }));
+    } else {
+      const briefText = await file.text();
+      setState(prev => ({ ...prev, briefText, briefFile: null }));
+    }
+  };
+
+  const toggleComparisonMode = () => {
+      setState(prev => {
+          const comparisonMode = !prev.comparisonMode;
+          // Seed variants in upload order the first time the mode is switched on
+          const assets = comparisonMode && !prev.assets.some(a => a.variant)
+              ? prev.assets.map((a, i) => ({ ...a, variant: VARIANT_LABELS[i] }))
+              : prev.assets;
+          return { ...prev, comparisonMode, assets };
+      });
+  };
+
+  const cycleVariant = (id: string, e: React.MouseEvent) => {
+      e.stopPropagation(); // Prevent opening lightbox
+      setState(prev => ({
+          ...prev,
+          assets: prev.assets.map(a => {
+              if (a.id !== id) return a;
+              const index = a.variant ? VARIANT_LABELS.indexOf(a.variant) : -1;
+              return { ...a, variant: VARIANT_LABELS[index + 1] }; // Wraps to untagged after the last label
+          })
+      }));
+  };
+
+  const toggleStrategy = (id: string, e: React.MouseEvent) => {
+      e.stopPropagation(); // Prevent opening lightbox
+      setState(prev => ({
+          ...prev,
+          assets: prev.assets.map(a => {
+              if (a.id !== id) return a;
+              const strategy: VideoStrategy = resolveStrategy(a, prev.videoPreprocessing) === 'keyframes' ? 'inline' : 'keyframes';
+              return { ...a, strategy, keyframes: undefined };
+          })
+      }));
+  };
+
+  const updateVideoPreprocessing = (patch: Partial<VideoPreprocessing>) =>
+      setState(prev => ({ ...prev, videoPreprocessing: { ...prev.videoPreprocessing, ...patch } }));
+
+  const removeAsset = (id: string, e: React.MouseEvent) => {
+      e.stopPropagation(); // Prevent opening lightbox
+      setState(prev => {
+          const assetToRemove = prev.assets.find(a => a.id === id);
+          if (assetToRemove) URL.revokeObjectURL(assetToRemove.previewUrl);
+          return {
+              ...prev,
+              assets: prev.assets.filter(a => a.id !== id)
+          };
+      });
+  };
+
+  const handleDownloadReport = async () => {
+    if (state.status !== 'complete') return;
+    setState(prev => ({...prev, isDownloading: true}));
+
+    // Assets are the only raster content: images as-is, videos as a poster frame plus
+    // frames at the most-cited moments for the static attention timeline
+    const images: Record<string, PdfImage> = {};
+    const frames: Record<string, AttentionFrames> = {};
+    for (const asset of state.assets) {
+        try {
+            if (asset.mimeType.startsWith('video')) {
+                const moments = mostCitedMoments(collectTimelineReactions(state.judgments, state.personas, asset.id));
+                const capture = await captureVideoFrames(asset.previewUrl, [1, ...moments.map(m => m.seconds)]);
+                images[asset.id] = await rasterizeImage(capture.frames[0].image);
+                frames[asset.id] = { duration: capture.duration, frames: capture.frames.slice(1) };
+            } else {
+                images[asset.id] = await rasterizeImage(asset.previewUrl);
+            }
+        } catch (e) {
+            console.warn(`Could not capture a frame for ${asset.id}`, e);
+        }
+    }
+
+    // A run reopened for export may not have finished its palette check yet
+    const paletteChecks = state.paletteChecks.length || !state.brandProfile?.brandColors?.length
+        ? state.paletteChecks
+        : await computePaletteChecks(state.assets, state.brandProfile.brandColors || []);
+
+    // Only the scripts the report's text contains are fetched
+    const fonts = await loadPdfFonts(JSON.stringify([
+        state.brandProfile, state.brief, state.briefFits, state.personas, state.judgments, state.comparisons,
+        state.debate, state.interviews, state.finalReport, state.markets, state.customMarkets, state.assets.map(a => [a.file.name, a.variant])
+    ]));
+
+    try {
+        buildPdfReport({ ...state, paletteChecks }, images, frames, fonts).save(exportFileName('pdf'));
+    } catch (err) {
+        console.error("PDF Export failed", err);
+        alert("Failed to generate PDF. Please try again.");
+    }
+    setState(prev => ({...prev, isDownloading: false}));
+  };
+
+  // --- Pipeline Stages ---
+  // Each stage receives what earlier stages produced and returns its own output, so the
+  // pipeline can pause between stages for review and resume from any of them.
+
+  const runResearchStage = async (provider: LLMProvider): Promise<BrandProfile> => {
+      addLog("RESEARCH: Scanning digital footprint...");
+      const researchPrompt = PromptEngine.research(activeTemplate(state.promptTemplates, 'research'), state.url);
+
+      const brandProfile = withBrandDefaults(await generateJson<BrandProfile>(provider, {
+        stage: 'research',
+        parts: [{ text: researchPrompt }],
+        useSearch: true,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                name: { type: Type.STRING },
+                category: { type: Type.STRING },
+                tone: { type: Type.ARRAY, items: { type: Type.STRING } },
+                targetAudience: { type: Type.STRING },
+                brandColors: { type: Type.ARRAY, items: { type: Type.STRING } },
+                competitors: { type: Type.ARRAY, items: { type: Type.STRING } },
+                uniqueSellingPropositions: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ['name', 'category', 'tone', 'targetAudience']
+        }
+      }, { onRetry: logRetry('RESEARCH') }));
+
+      addLog(`RESEARCH: Profile built for ${brandProfile.name}.`);
+
+      setState(prev => ({ ...prev, brandProfile, progress: 30 }));
+      return brandProfile;
+  };
+
+  // Text briefs go in the prompt; PDFs are attached as a document part for the model to read
+  const runBriefParsing = async (provider: LLMProvider): Promise<CreativeBrief | null> => {
+      const text = state.briefText.trim();
+      if (!state.briefFile && !text) return null;
+      addLog(`BRIEF: Reading ${state.briefFile ? state.briefFile.name : 'the creative brief'}...`);
+
+      const brief = await generateJson<CreativeBrief>(provider, {
+        stage: 'research',
+        parts: state.briefFile
+            ? [await readFilePart(state.briefFile, 'application/pdf'), { text: PromptEngine.briefParsing() }]
+            : [{ text: PromptEngine.briefParsing(text) }],
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+                keyMessage: { type: Type.STRING },
+                mandatories: { type: Type.ARRAY, items: { type: Type.STRING } },
+                target: { type: Type.STRING },
+                tone: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ['objectives', 'keyMessage', 'mandatories', 'target', 'tone']
+        }
+      }, { onRetry: logRetry('BRIEF') });
+
+      addLog(`BRIEF: Key message "${brief.keyMessage}", ${brief.mandatories.length} mandatories.`);
+      setState(prev => ({ ...prev, brief }));
+      return brief;
+  };
+
+  const scoreBriefFit = async (provider: LLMProvider, brandProfile: BrandProfile, brief: CreativeBrief, asset: Asset, parts: ContentPart[]): Promise<BriefFit> => {
+      const result = await generateJson<Omit<BriefFit, 'assetId'>>(provider, {
+        stage: 'judging',
+        parts: [...parts, { text: PromptEngine.briefFit(brief, brandProfile, asset.file.name) }],
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+              takeaway: { type: Type.STRING },
+              messageMatch: { type: Type.NUMBER },
+              mandatories: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    item: { type: Type.STRING },
+                    present: { type: Type.BOOLEAN },
+                    note: { type: Type.STRING }
+                  },
+                  required: ['item', 'present']
+                }
+              },
+              toneMatch: { type: Type.NUMBER },
+              toneNotes: { type: Type.STRING }
+            },
+            required: ['takeaway', 'messageMatch', 'mandatories', 'toneMatch']
+        }
+      }, { onRetry: logRetry(`BRIEF (${asset.file.name})`) });
+
+      addLog(`BRIEF: ${asset.file.name} scores ${briefFitScore({ ...result, assetId: asset.id })} for brief fit.`);
+      return { ...result, assetId: asset.id };
+  };
+
+  const runPersonaStage = async (provider: LLMProvider, brandProfile: BrandProfile): Promise<Persona[]> => {
+      // Saved members keep the market they were recruited for, or join the primary market
+      const savedPersonas = (state.personaSource === 'generate' ? [] : getCouncilPersonas(state.selectedCouncilId))
+          .map(p => ({ ...p, market: personaMarket(p, state.markets) }));
+      savedPersonas.forEach(p => addLog(`RECRUITMENT: ${p.name} (${p.occupation}) returns from the saved council.`));
+
+      // Each market recruits its own council; the brand research is shared
+      let generatedPersonas: Persona[] = [];
+      if (state.personaSource !== 'saved') {
+        const batches = personaBatches(state.numPersonas);
+        const advance = trackProgress(30, 50, batches.length * state.markets.length);
+        const councils = await Promise.all(state.markets.map(async market => {
+          addLog(`RECRUITMENT: Assembling ${state.numPersonas} distinct voices in ${market}...`);
+          // Batches run in turn so each one knows who is already on the council
+          const recruited: Persona[] = [];
+          for (const size of batches) {
+            recruited.push(...await recruitMarket(provider, brandProfile, market, size, [...savedPersonas.filter(p => p.market === market), ...recruited]));
+            advance();
+          }
+          return recruited.map(p => ({ ...p, market }));
+        }));
+        generatedPersonas = councils.flat();
+        generatedPersonas.forEach(p => addLog(`RECRUITMENT: ${p.name} (${p.occupation}, ${p.market}) joined the council.`));
+      }
+
+      const personas = ensureUniquePersonaIds([
+        ...savedPersonas,
+        ...generatedPersonas.map(p => ({ ...p, locationType: toLocationType(p.locationType) }))
+      ]);
+
+      setState(prev => ({ ...prev, personas, progress: 50 }));
+      return personas;
+  };
+
+  const recruitMarket = (provider: LLMProvider, brandProfile: BrandProfile, market: string, count: number, existing: Persona[]) =>
+      generateJson<Persona[]>(provider, {
+        stage: 'personas',
+        parts: [{ text: PromptEngine.personaGeneration(activeTemplate(state.promptTemplates, 'personaGeneration'), brandProfile, count, findMarket(market, state.customMarkets), existing) }],
+        itemCount: count,
+        schema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                name: { type: Type.STRING },
+                age: { type: Type.NUMBER },
+                gender: { type: Type.STRING },
+                occupation: { type: Type.STRING },
+                location: { type: Type.STRING },
+                locationType: { type: Type.STRING, enum: [...LOCATION_TYPES] },
+                household: { type: Type.STRING },
+                bio: { type: Type.STRING },
+                painPoints: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ['id', 'name', 'age', 'gender', 'occupation', 'location', 'locationType', 'household', 'bio', 'painPoints']
+            }
+        }
+      }, { onRetry: logRetry(`RECRUITMENT (${market})`) });
+
+  // Spend is mirrored in a ref so parallel calls see each other's cost before the state catches up
+  const spentRef = useRef(0);
+  const budgetWarned = useRef(false);
+
+  const createMeteredProvider = (): LLMProvider => {
+      const provider = createProvider(state.providerSettings);
+      const { providerSettings, budget, budgetMode } = state;
+      return {
+          ...provider,
+          generate: async (request) => {
+              if (budget > 0 && budgetMode === 'abort' && spentRef.current >= budget) {
+                  throw new Error(`Budget cap of ${formatCost(budget)} reached (${formatCost(spentRef.current)} spent). Raise the cap to continue.`);
+              }
+              const result = await provider.generate(request);
+              if (result.usage) {
+                  const model = stageModel(providerSettings, request.stage);
+                  const record: UsageRecord = {
+                      stage: request.stage, personaId: request.personaId, model, ...result.usage,
+                      cost: usageCost(result.usage, priceFor(providerSettings.prices, model))
+                  };
+                  spentRef.current += record.cost;
+                  setState(prev => ({ ...prev, usage: [...prev.usage, record] }));
+                  if (budget > 0 && spentRef.current > budget && !budgetWarned.current) {
+                      budgetWarned.current = true;
+                      addLog(`BUDGET: Spend passed the ${formatCost(budget)} cap (${formatCost(spentRef.current)} so far).`);
+                  }
+              }
+              return result;
+          }
+      };
+  };
+
+  // One pool per pipeline run or persona retry, sized from Settings
+  const createPooledProvider = () => {
+      const pool = createRequestPool(state.providerSettings.concurrency);
+      const provider = throttleProvider(createMeteredProvider(), pool, pauseMs =>
+          addLog(`RATE LIMIT: The API is throttling us. Pausing every request for ${(pauseMs / 1000).toFixed(0)}s...`));
+      return { provider, pool };
+  };
+
+  const updatePersonaJobs = (personaId: string, change: Partial<PersonaJobs>) => setState(prev => {
+      const jobs = prev.personaJobs[personaId] || EMPTY_JOBS;
+      return {
+          ...prev,
+          personaJobs: {
+              ...prev.personaJobs,
+              [personaId]: {
+                  queued: jobs.queued + (change.queued || 0),
+                  running: jobs.running + (change.running || 0),
+                  done: jobs.done + (change.done || 0),
+                  failed: jobs.failed + (change.failed || 0)
+              }
+          }
+      };
+  });
+
+  // Queues one persona task on the pool and mirrors its state in the Processing Feed
+  const queuePersonaTask = <T,>(pool: RequestPool, personaId: string, task: () => Promise<T>) => {
+      updatePersonaJobs(personaId, { queued: 1 });
+      return pool.run(async () => {
+          updatePersonaJobs(personaId, { queued: -1, running: 1 });
+          try {
+              const result = await task();
+              updatePersonaJobs(personaId, { running: -1, done: 1 });
+              return result;
+          } catch (error) {
+              updatePersonaJobs(personaId, { running: -1, failed: 1 });
+              throw error;
+          }
+      });
+  };
+
+  // Progress is set from the share of finished tasks, so it stays right whatever order they finish in
+  const trackProgress = (from: number, to: number, total: number) => {
+      let finished = 0;
+      return () => {
+          finished++;
+          setState(prev => ({ ...prev, progress: from + (to - from) * Math.min(1, finished / Math.max(1, total)) }));
+      };
+  };
+
+  const logRetry = (label: string) => (attempt: number, error: unknown, delayMs: number) =>
+      addLog(`${label}: Attempt ${attempt} failed (${errorMessage(error)}). Retrying in ${(delayMs / 1000).toFixed(1)}s...`);
+
+  const judgeAsset = async (
+      provider: LLMProvider,
+      brandProfile: BrandProfile,
+      persona: Persona,
+      asset: Asset,
+      assetParts: ContentPart[]
+  ): Promise<Judgment> => {
+      const assetIndex = state.assets.findIndex(a => a.id === asset.id);
+      const language = reactionLanguage(findMarket(personaMarket(persona, state.markets), state.customMarkets), state.nativeLanguage);
+      const prompt = PromptEngine.judgment(activeTemplate(state.promptTemplates, 'judgment'), persona, brandProfile, {
+          name: asset.file.name,
+          position: assetIndex + 1,
+          total: state.assets.length
+      }, language);
+      const translated = language ? ['quoteEnglish', 'prosEnglish', 'consEnglish'] : [];
+
+      const count = state.samplesPerPersona;
+      addLog(`JUDGE (${persona.name}): Reviewing ${asset.file.name}${language ? ` in ${language}` : ''}${count > 1 ? ` (${count} samples)` : ''}...`);
+
+      // Append prompt text to the asset's media parts
+      const sampleOnce = async (sample: number): Promise<JudgmentSample> => {
+          const result = await generateJson<JudgmentSample & { quoteEnglish?: string; prosEnglish?: string[]; consEnglish?: string[] }>(provider, {
+            stage: 'judging',
+            personaId: persona.id,
+            sample,
+            parts: [...assetParts, { text: prompt }],
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                  score: { type: Type.NUMBER },
+                  quote: { type: Type.STRING },
+                  pros: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  cons: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  verdict: { type: Type.STRING },
+                  emotionalTags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  emotionalIntensity: { type: Type.NUMBER },
+                  shareLikelihood: { type: Type.NUMBER },
+                  trustPerception: { type: Type.STRING },
+                  firstImpressionSeconds: { type: Type.NUMBER },
+                  shareWith: { type: Type.STRING },
+                  languageCues: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  timecodedReactions: { 
+                    type: Type.ARRAY, 
+                    items: { 
+                      type: Type.OBJECT, 
+                      properties: {
+                        time: { type: Type.STRING },
+                        reaction: { type: Type.STRING }
+                      }
+                    } 
+                  },
+                  ...(language ? {
+                    quoteEnglish: { type: Type.STRING },
+                    prosEnglish: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    consEnglish: { type: Type.ARRAY, items: { type: Type.STRING } }
+                  } : {})
+                },
+                required: ['score', 'quote', 'pros', 'cons', 'verdict', ...translated]
+            }
+          }, { onRetry: logRetry(`JUDGE (${persona.name})`) });
+
+          // Statistics, synthesis and debate read the English fields; the persona's own words ride along
+          const { quoteEnglish, prosEnglish, consEnglish, ...judgment } = result;
+          if (!language) return judgment;
+          return {
+            ...judgment,
+            quote: quoteEnglish || judgment.quote,
+            pros: prosEnglish || judgment.pros,
+            cons: consEnglish || judgment.cons,
+            original: { language, quote: judgment.quote, pros: judgment.pros, cons: judgment.cons }
+          };
+      };
+
+      if (count <= 1) {
+          const judgment = await sampleOnce(0);
+          addLog(`JUDGE (${persona.name}): ${asset.file.name} scored ${judgment.score}/100.`);
+          return { ...judgment, personaId: persona.id, assetId: asset.id };
+      }
+
+      // Repeats run in turn inside the persona's pool slot; a failed repeat only thins the sample
+      const samples: JudgmentSample[] = [];
+      let lastError: unknown;
+      for (let sample = 0; sample < count; sample++) {
+        try {
+          samples.push(await sampleOnce(sample));
+        } catch (error) {
+          lastError = error;
+          addLog(`JUDGE (${persona.name}): Sample ${sample + 1} of ${count} on ${asset.file.name} failed — ${errorMessage(error)}`);
+        }
+      }
+      if (!samples.length) throw lastError;
+
+      const summary = summarizeSamples(samples);
+      const scores = samples.map(s => s.score);
+      addLog(`JUDGE (${persona.name}): ${asset.file.name} scored ${summary.score}/100 across ${samples.length} samples (${Math.min(...scores)}–${Math.max(...scores)}).`);
+      return { ...summary, samples, personaId: persona.id, assetId: asset.id };
+  };
+
+  const comparePersona = async (
+      provider: LLMProvider,
+      brandProfile: BrandProfile,
+      persona: Persona,
+      variantGroups: { label: string; assets: Asset[] }[],
+      partsFor: (asset: Asset) => ContentPart[]
+  ): Promise<Comparison> => {
+      const labels = variantGroups.map(g => g.label);
+      const prompt = PromptEngine.comparison(persona, brandProfile, variantGroups.map(g => ({
+          label: g.label,
+          assetNames: g.assets.map(a => a.file.name)
+      })));
+
+      // Each variant's media is introduced by its label so the model can tell them apart
+      const parts: ContentPart[] = [
+          ...variantGroups.flatMap(g => [
+              { text: `Variant ${g.label}:` },
+              ...g.assets.flatMap(partsFor)
+          ]),
+          { text: prompt }
+      ];
+
+      const result = await generateJson<Omit<Comparison, 'personaId'>>(provider, {
+        stage: 'judging',
+        personaId: persona.id,
+        parts,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+              preferredVariant: { type: Type.STRING, enum: labels },
+              margin: { type: Type.NUMBER },
+              reason: { type: Type.STRING },
+              emotionalTags: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ['preferredVariant', 'margin', 'reason']
+        }
+      }, { onRetry: logRetry(`JUDGE (${persona.name})`) });
+
+      addLog(`JUDGE (${persona.name}): Prefers variant ${result.preferredVariant} (margin ${result.margin}/10).`);
+      return { ...result, personaId: persona.id };
+  };
+
+  // Failed calls are recorded instead of aborting the stage; the run finishes with the rest
+  const runJudgingStage = async (provider: LLMProvider, pool: RequestPool, brandProfile: BrandProfile, personas: Persona[], brief: CreativeBrief | null) => {
+      addLog("COUNCIL: Deliberating on creative assets...");
+      setState(prev => ({ ...prev, personaJobs: {} }));
+      
+      // Convert each asset to its own parts so every execution is judged on its own.
+      // Videos sent as keyframes are sampled once here and shared by every persona.
+      const assetParts = await Promise.all(state.assets.map(async (asset) => {
+        const strategy = resolveStrategy(asset, state.videoPreprocessing);
+        if (strategy === 'keyframes') addLog(`MEDIA: Sampling keyframes from ${asset.file.name}...`);
+        const { parts, keyframes } = await readAssetParts({ ...asset, keyframes: undefined }, state.videoPreprocessing);
+        if (strategy) addLog(`MEDIA: ${asset.file.name} sent ${keyframes ? `as ${keyframes.length} keyframes` : 'as the full video'}.`);
+        return { asset, parts, keyframes };
+      }));
+      const partsFor = (asset: Asset) => assetParts.find(p => p.asset.id === asset.id)!.parts;
+      setState(prev => ({
+        ...prev,
+        assets: prev.assets.map(a => {
+          const prepared = assetParts.find(p => p.asset.id === a.id);
+          return prepared ? { ...a, keyframes: prepared.keyframes } : a;
+        })
+      }));
+
+      const variantGroups = state.comparisonMode ? getVariantGroups(state.assets) : [];
+      const runComparison = variantGroups.length >= 2;
+      const totalJudgments = personas.length * assetParts.length + (runComparison ? personas.length : 0) + (brief ? assetParts.length : 0);
+      const advance = trackProgress(50, 85, totalJudgments);
+
+      const failedJudgments: FailedJudgment[] = [];
+
+      const judgmentTasks = personas.flatMap(persona => assetParts.map(({ asset, parts }) => ({ persona, asset, parts })));
+      const judgmentResults = await Promise.allSettled(judgmentTasks.map(async ({ persona, asset, parts }) => {
+        try {
+          return await queuePersonaTask(pool, persona.id, () => judgeAsset(provider, brandProfile, persona, asset, parts));
+        } finally {
+          advance();
+        }
+      }));
+
+      const judgments: Judgment[] = [];
+      judgmentResults.forEach((result, i) => {
+        const { persona, asset } = judgmentTasks[i];
+        if (result.status === 'fulfilled') {
+          judgments.push(result.value);
+        } else {
+          addLog(`JUDGE (${persona.name}): FAILED on ${asset.file.name} — ${errorMessage(result.reason)}`);
+          failedJudgments.push({ personaId: persona.id, assetId: asset.id, error: errorMessage(result.reason) });
+        }
+      });
+
+      if (judgments.length === 0) {
+        throw new Error('Every judgment call failed.');
+      }
+
+      // Brief fit is a reviewer's check, not a persona's; a failure only leaves that asset unscored
+      const briefFits: BriefFit[] = [];
+      if (brief) {
+        const fitResults = await Promise.allSettled(assetParts.map(async ({ asset, parts }) => {
+          try {
+            return await pool.run(() => scoreBriefFit(provider, brandProfile, brief, asset, parts));
+          } finally {
+            advance();
+          }
+        }));
+        fitResults.forEach((result, i) => {
+          if (result.status === 'fulfilled') briefFits.push(result.value);
+          else addLog(`BRIEF: Could not score ${assetParts[i].asset.file.name} — ${errorMessage(result.reason)}`);
+        });
+      }
+
+      // Head-to-head comparison (A/B mode)
+      const comparisons: Comparison[] = [];
+      if (runComparison) {
+        addLog(`COUNCIL: Head-to-head between variants ${variantGroups.map(g => g.label).join(' vs ')}...`);
+
+        const comparisonResults = await Promise.allSettled(personas.map(async (persona) => {
+          try {
+            return await queuePersonaTask(pool, persona.id, () => comparePersona(provider, brandProfile, persona, variantGroups, partsFor));
+          } finally {
+            advance();
+          }
+        }));
+
+        comparisonResults.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            comparisons.push(result.value);
+          } else {
+            addLog(`JUDGE (${personas[i].name}): FAILED on head-to-head — ${errorMessage(result.reason)}`);
+            failedJudgments.push({ personaId: personas[i].id, error: errorMessage(result.reason) });
+          }
+        });
+      }
+
+      if (failedJudgments.length) {
+        addLog(`COUNCIL: ${failedJudgments.length} call(s) failed. Continuing with the verdicts that came back.`);
+      }
+
+      setState(prev => ({ ...prev, judgments, comparisons, failedJudgments, briefFits, debate: [], progress: 85 }));
+      return { judgments, comparisons, failedJudgments, briefFits };
+  };
+
+  const debateTurn = async (
+      provider: LLMProvider,
+      brandProfile: BrandProfile,
+      persona: Persona,
+      judgment: Judgment,
+      judgments: Judgment[],
+      debate: DebateTurn[],
+      round: number
+  ): Promise<DebateTurn> => {
+      const asset = state.assets.find(a => a.id === judgment.assetId);
+      const { own, others } = debatePositions(judgments, debate, persona.id, judgment.assetId, round);
+      // Text only: the persona already reacted to the media, the debate is about the reactions
+      const result = await generateJson<Pick<DebateTurn, 'reply' | 'score' | 'reason'>>(provider, {
+        stage: 'debate',
+        personaId: persona.id,
+        parts: [{ text: PromptEngine.debate(persona, brandProfile, asset?.file.name || judgment.assetId, round, state.debateRounds, own, others) }],
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+              reply: { type: Type.STRING },
+              score: { type: Type.NUMBER },
+              reason: { type: Type.STRING }
+            },
+            required: ['reply', 'score', 'reason']
+        }
+      }, { onRetry: logRetry(`DEBATE (${persona.name})`) });
+
+      return {
+          round,
+          personaId: persona.id,
+          assetId: judgment.assetId,
+          reply: result.reply,
+          previousScore: own.score,
+          score: Math.min(100, Math.max(0, Math.round(result.score))),
+          reason: result.reason
+      };
+  };
+
+  // Every persona answers the others once per round; a failed reply just keeps the previous score
+  const runDebateStage = async (provider: LLMProvider, pool: RequestPool, { brandProfile, personas, judgments }: PipelineContext) => {
+      const rounds = state.debateRounds;
+      addLog(`DEBATE: Opening the floor for ${rounds} round${rounds > 1 ? 's' : ''}...`);
+      setState(prev => ({ ...prev, personaJobs: {} }));
+      const advance = trackProgress(85, 95, rounds * judgments.length);
+
+      let debate: DebateTurn[] = [];
+      for (let round = 1; round <= rounds; round++) {
+        const speakers = judgments
+          .map(judgment => ({ judgment, persona: personas.find(p => p.id === judgment.personaId) }))
+          .filter((s): s is { judgment: Judgment; persona: Persona } => !!s.persona);
+        const results = await Promise.allSettled(speakers.map(async ({ judgment, persona }) => {
+          try {
+            return await queuePersonaTask(pool, persona.id, () => debateTurn(provider, brandProfile!, persona, judgment, judgments, debate, round));
+          } finally {
+            advance();
+          }
+        }));
+
+        const turns: DebateTurn[] = [];
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            turns.push(result.value);
+          } else {
+            addLog(`DEBATE (${speakers[i].persona.name}): No reply in round ${round} — ${errorMessage(result.reason)}`);
+          }
+        });
+        if (!turns.length) {
+          throw new Error(`Every reply in debate round ${round} failed.`);
+        }
+
+        debate = [...debate, ...turns];
+        const moved = turns.filter(t => t.score !== t.previousScore).length;
+        addLog(`DEBATE: Round ${round} done. ${moved} score${moved === 1 ? '' : 's'} changed.`);
+        setState(prev => ({ ...prev, debate }));
+      }
+
+      setState(prev => ({ ...prev, debate, progress: 95 }));
+      return debate;
+  };
+
+  const runSynthesisStage = async (provider: LLMProvider, { brandProfile, personas, judgments, comparisons, debate }: PipelineContext) => {
+      addLog("SYNTHESIS: Finalizing strategy report...");
+      const synthesisPrompt = PromptEngine.synthesis(
+          activeTemplate(state.promptTemplates, 'synthesis'),
+          brandProfile, 
+          buildSynthesisInput(state.assets, personas, judgments),
+          computeCouncilStats(state.assets, personas, judgments),
+          comparisons.length ? buildComparisonInput(state.assets, personas, comparisons) : undefined,
+          debate.length ? buildDebateInput(state.assets, personas, judgments, debate) : undefined,
+          state.markets.length > 1 ? computeMarketStats(state.assets, personas, judgments, state.markets) : undefined
+      );
+
+      const synthesisResp = await withRetry(() => provider.generate({
+        stage: 'synthesis',
+        parts: [{ text: synthesisPrompt }]
+      }), { onRetry: logRetry('SYNTHESIS') });
+
+      addLog("SYSTEM: Process complete.");
+      setState(prev => ({ 
+          ...prev, 
+          finalReport: synthesisResp.text || '', 
+          status: 'complete',
+          synthesisStale: false,
+          progress: 100 
+      }));
+  };
+
+  // The debate only joins the pipeline when rounds are set
+  const activeStages = PIPELINE_STAGES.filter(stage => stage !== 'debate' || state.debateRounds > 0);
+
+  const runPipeline = async (from: PipelineStage, context: PipelineContext) => {
+    const { provider, pool } = createPooledProvider();
+    let ctx = context;
+    let current = from;
+
+    try {
+      for (const stage of activeStages.slice(activeStages.indexOf(from))) {
+        current = stage;
+        setState(prev => ({ ...prev, status: STAGE_STATUS[stage], reviewStage: null, failedStage: null, stageError: '' }));
+
+        switch (stage) {
+          case 'research':
+            ctx = { ...ctx, brandProfile: await runResearchStage(provider) };
+            ctx = { ...ctx, brief: await runBriefParsing(provider) };
+            break;
+          case 'personas':
+            ctx = { ...ctx, personas: await runPersonaStage(provider, ctx.brandProfile!) };
+            break;
+          case 'judging':
+            ctx = { ...ctx, ...(await runJudgingStage(provider, pool, ctx.brandProfile!, ctx.personas, ctx.brief)), debate: [] };
+            break;
+          case 'debate':
+            ctx = { ...ctx, debate: await runDebateStage(provider, pool, ctx) };
+            break;
+          case 'synthesis':
+            await runSynthesisStage(provider, ctx);
+            break;
+        }
+
+        if (state.reviewMode && stage !== 'synthesis') {
+          addLog(`REVIEW: Paused after ${STAGE_LABELS[stage]}. Edit the results, then continue.`);
+          setState(prev => ({ ...prev, status: 'reviewing', reviewStage: stage }));
+          return;
+        }
+      }
+    } catch (error) {
+      console.error(error);
+      addLog(`ERROR: ${STAGE_LABELS[current]} failed — ${errorMessage(error)}`);
+      // Keep everything gathered so far so the failed stage can be retried in place
+      setState(prev => ({ ...prev, status: 'failed', failedStage: current, stageError: errorMessage(error) }));
+    }
+  };
+
+  const pipelineContextFromState = (): PipelineContext => ({
+      brandProfile: state.brandProfile,
+      personas: state.personas,
+      judgments: state.judgments,
+      comparisons: state.comparisons,
+      failedJudgments: state.failedJudgments,
+      debate: state.debate,
+      brief: state.brief,
+      briefFits: state.briefFits
+  });
+
+  const retryStage = () => {
+      if (!state.failedStage) return;
+      addLog(`SYSTEM: Retrying ${STAGE_LABELS[state.failedStage]}...`);
+      runPipeline(state.failedStage, pipelineContextFromState());
+  };
+
+  const discardFailedRun = () => {
+      // Inputs stay in place so a fresh run can start straight away
+      setState(prev => ({
+          ...prev,
+          status: 'idle',
+          progress: 0,
+          failedStage: null,
+          stageError: '',
+          brandProfile: null,
+          brief: null,
+          briefFits: [],
+          personas: [],
+          judgments: [],
+          comparisons: [],
+          failedJudgments: [],
+          debate: [],
+          interviews: [],
+          usage: [],
+          personaJobs: {},
+          finalReport: ''
+      }));
+  };
+
+  const refreshSynthesis = () => {
+      runPipeline('synthesis', pipelineContextFromState());
+  };
+
+  // Re-runs only the calls that failed for one persona, keeping every other verdict
+  const retryPersona = async (personaId: string) => {
+      const persona = state.personas.find(p => p.id === personaId);
+      const failures = state.failedJudgments.filter(f => f.personaId === personaId);
+      if (!persona || !state.brandProfile || failures.length === 0) return;
+
+      const { provider } = createPooledProvider();
+      const brandProfile = state.brandProfile;
+      setState(prev => ({ ...prev, retryingPersonaIds: [...prev.retryingPersonaIds, personaId] }));
+      addLog(`JUDGE (${persona.name}): Retrying ${failures.length} failed call(s)...`);
+
+      const judgments: Judgment[] = [];
+      const comparisons: Comparison[] = [];
+      const stillFailed: FailedJudgment[] = [];
+      const partCache = new Map<string, ContentPart[]>();
+      const partsFor = async (asset: Asset) => {
+          if (!partCache.has(asset.id)) partCache.set(asset.id, (await readAssetParts(asset, state.videoPreprocessing)).parts);
+          return partCache.get(asset.id)!;
+      };
+
+      for (const failure of failures) {
+        try {
+          if (failure.assetId) {
+            const asset = state.assets.find(a => a.id === failure.assetId);
+            if (!asset) continue;
+            judgments.push(await judgeAsset(provider, brandProfile, persona, asset, await partsFor(asset)));
+          } else {
+            const variantGroups = getVariantGroups(state.assets);
+            for (const asset of variantGroups.flatMap(g => g.assets)) await partsFor(asset);
+            comparisons.push(await comparePersona(provider, brandProfile, persona, variantGroups, asset => partCache.get(asset.id)!));
+          }
+        } catch (error) {
+          addLog(`JUDGE (${persona.name}): Retry failed — ${errorMessage(error)}`);
+          stillFailed.push({ ...failure, error: errorMessage(error) });
+        }
+      }
+
+      setState(prev => ({
+          ...prev,
+          judgments: [...prev.judgments, ...judgments],
+          comparisons: [...prev.comparisons, ...comparisons],
+          failedJudgments: [...prev.failedJudgments.filter(f => f.personaId !== personaId), ...stillFailed],
+          retryingPersonaIds: prev.retryingPersonaIds.filter(id => id !== personaId),
+          synthesisStale: prev.synthesisStale || (prev.status === 'complete' && (judgments.length + comparisons.length) > 0)
       }));
-      
-      // Reset input so same files can be selected again if needed
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    }
   };
 
-  const removeAsset = (id: string, e: React.MouseEvent) => {
-      e.stopPropagation(); // Prevent opening lightbox
-      setState(prev => {
-          const assetToRemove = prev.assets.find(a => a.id === id);
-          if (assetToRemove) URL.revokeObjectURL(assetToRemove.previewUrl);
+  // Media read for interviews, keyed by asset and the frames it was judged from, so follow-up
+  // questions don't re-read the file or re-seek the video
+  const interviewParts = useRef(new Map<string, ContentPart[]>());
+
+  // Continues the conversation in character, with the same media (or keyframes) the persona judged
+  const askPersona = async (personaId: string, assetId: string, question: string) => {
+      const persona = state.personas.find(p => p.id === personaId);
+      const asset = state.assets.find(a => a.id === assetId);
+      const judgment = state.judgments.find(j => j.personaId === personaId && j.assetId === assetId);
+      if (!persona || !asset || !judgment || !state.brandProfile) return;
+
+      const history = state.interviews.find(i => i.personaId === personaId && i.assetId === assetId)?.messages || [];
+      const append = (message: InterviewMessage) => setState(prev => {
+          const existing = prev.interviews.find(i => i.personaId === personaId && i.assetId === assetId);
           return {
               ...prev,
-              assets: prev.assets.filter(a => a.id !== id)
+              interviews: existing
+                  ? prev.interviews.map(i => i === existing ? { ...i, messages: [...i.messages, message] } : i)
+                  : [...prev.interviews, { personaId, assetId, messages: [message] }]
           };
       });
+
+      const partsKey = `${asset.id}:${asset.keyframes?.join(',') || resolveStrategy(asset, state.videoPreprocessing)}`;
+      if (!interviewParts.current.has(partsKey)) {
+          interviewParts.current.set(partsKey, (await readAssetParts(asset, state.videoPreprocessing)).parts);
+      }
+      const parts = interviewParts.current.get(partsKey)!;
+
+      const { provider } = createPooledProvider();
+      const prompt = PromptEngine.interview(persona, state.brandProfile, asset.file.name, judgment, history, question);
+      const resp = await withRetry(() => provider.generate({
+          stage: 'interview',
+          personaId,
+          parts: [...parts, { text: prompt }]
+      }));
+      const reply = resp.text.trim();
+      if (!reply) throw new Error('The persona did not answer.');
+
+      // The question is only kept once it has an answer, so a failed call can simply be re-sent
+      append({ role: 'user', text: question, at: Date.now() });
+      append({ role: 'persona', text: reply, at: Date.now() });
   };
 
-  const handleDownloadReport = async () => {
-    if (state.status !== 'complete') return;
-    setState(prev => ({...prev, isDownloading: true}));
+  // Custom markets persist across sessions; a new one joins the comparison straight away
+  const addCustomMarket = (market: Market) => {
+      const customMarkets = [...state.customMarkets, market];
+      saveCustomMarkets(customMarkets);
+      setState(prev => ({ ...prev, customMarkets, markets: [...prev.markets, market.name] }));
+  };
 
-    const snapshots: Record<string, string> = {};
-    
-    // Capture video frames
-    const videoAssets = state.assets.filter(a => a.mimeType.startsWith('video'));
-    for (const asset of videoAssets) {
-        try {
-            const videoEl = document.getElementById(`video-preview-${asset.id}`) as HTMLVideoElement;
-            if (videoEl) {
-                const canvas = document.createElement('canvas');
-                canvas.width = videoEl.videoWidth || 640;
-                canvas.height = videoEl.videoHeight || 360;
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                    ctx.drawImage(videoEl, 0, 0, canvas.width, canvas.height);
-                    snapshots[asset.id] = canvas.toDataURL('image/jpeg');
-                }
-            }
-        } catch (e) {
-            console.warn(`Could not capture frame for ${asset.id}`, e);
-        }
-    }
-    
-    setVideoSnapshots(snapshots);
-
-    // Wait for state to propagate and DOM to render
-    setTimeout(async () => {
-        const element = document.getElementById('pdf-report-content');
-        if (element) {
-            const opt = {
-                margin: 0, // No default margins, we control padding in CSS
-                filename: `Creative_Council_${state.brandProfile?.name.replace(/ /g, '_') || 'Report'}.pdf`,
-                image: { type: 'jpeg', quality: 0.98 },
-                html2canvas: { scale: 2, useCORS: true, scrollY: 0 },
-                jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-            };
-
-            try {
-                await html2pdf().set(opt).from(element).save();
-            } catch (err) {
-                console.error("PDF Export failed", err);
-                alert("Failed to generate PDF. Please try again.");
-            }
-        } else {
-            console.error("PDF element not found in DOM");
-        }
-        setState(prev => ({...prev, isDownloading: false}));
-    }, 1500); 
+  const removeCustomMarket = (name: string) => {
+      const customMarkets = state.customMarkets.filter(m => m.name !== name);
+      saveCustomMarkets(customMarkets);
+      setState(prev => {
+          const markets = prev.markets.filter(m => m !== name);
+          return { ...prev, customMarkets, markets: markets.length ? markets : [BUILT_IN_MARKETS[0].name] };
+      });
   };
 
+  const marketNames = [...BUILT_IN_MARKETS, ...state.customMarkets].map(m => m.name);
+  const foreignMarkets = state.markets.map(m => findMarket(m, state.customMarkets)).filter(m => !isEnglish(m.language));
+
+  const generatedPerMarket = state.personaSource === 'saved' ? 0 : state.numPersonas;
+  const plannedPersonas = generatedPerMarket * state.markets.length
+      + (state.personaSource === 'generate' ? 0 : getCouncilPersonas(state.selectedCouncilId).length);
+  const runEstimate = estimateRunCost({
+      assets: state.assets,
+      personaCount: plannedPersonas,
+      markets: state.markets.length,
+      generatedPersonas: generatedPerMarket,
+      comparison: state.comparisonMode && getVariantGroups(state.assets).length >= 2,
+      debateRounds: state.debateRounds,
+      samples: state.samplesPerPersona,
+      briefTokens: state.briefFile ? DOCUMENT_TOKENS : textTokens(state.briefText.trim()),
+      videoPreprocessing: state.videoPreprocessing
+  }, stage => priceFor(state.providerSettings.prices, stageModel(state.providerSettings, stage)));
+
   const handleStartAnalysis = async () => {
     // Check if we should reset
     if (state.status === 'complete') {
         if(!confirm("Start a new analysis? Current report will be cleared.")) return;
         
-        // Reset Logic
-        setState({
-            status: 'idle',
-            progress: 0,
-            logs: [],
-            isLogExpanded: false,
-            brandProfile: null,
-            personas: [],
-            judgments: [],
-            finalReport: '',
-            url: '',
-            country: 'Vietnam',
-            numPersonas: 3,
-            assets: [],
-            isDownloading: false,
-            apiKey: state.apiKey
-        });
+        // Reset Logic (the finished run is already saved to history)
+        setState(createInitialState(state.providerSettings, state.customMarkets, state.promptTemplates));
         return;
     } else if (!state.url || state.assets.length === 0) {
       alert("Please provide a URL and upload at least one creative asset.");
       return;
+    } else if (state.personaSource !== 'generate' && getCouncilPersonas(state.selectedCouncilId).length === 0) {
+      alert("Choose a saved council with at least one persona, or switch to generating a new council.");
+      return;
+    } else if (state.comparisonMode && getVariantGroups(state.assets).length < 2) {
+      alert("A/B mode needs at least two assets tagged as different variants.");
+      return;
+    } else if (state.briefFile && state.providerSettings.provider === 'openai') {
+      alert("PDF briefs need a provider that reads documents. Paste the brief text instead, or switch to Gemini.");
+      return;
     }
 
-    if (!state.apiKey) {
+    // OpenAI-compatible endpoints only see images, so a full video would be judged unseen
+    const unseenVideos = state.providerSettings.provider === 'openai'
+        ? state.assets.filter(a => resolveStrategy(a, state.videoPreprocessing) === 'inline')
+        : [];
+    if (unseenVideos.length) {
+      alert(`This provider reads images only. Switch ${unseenVideos.map(a => a.file.name).join(', ')} to keyframes with the badge on each video, or switch to Gemini.`);
+      return;
+    }
+
+    if (!isProviderConfigured(state.providerSettings)) {
         setState(prev => ({ ...prev, isSettingsOpen: true }));
         return;
     }
 
+    if (state.budget > 0 && runEstimate.cost > state.budget) {
+        const message = `This run is estimated at ${formatCost(runEstimate.cost)}, over the ${formatCost(state.budget)} budget cap.`;
+        if (state.budgetMode === 'abort') {
+            alert(`${message} Raise the cap, or reduce the council size, assets or debate rounds.`);
+            return;
+        }
+        if (!confirm(`${message} Run anyway?`)) return;
+    }
+
+    spentRef.current = 0;
+    budgetWarned.current = false;
+    const runSettings = captureRunSettings(state);
+    const customPrompts = describeCustomPrompts(runSettings);
+
     setState(prev => ({ 
         ...prev, 
         status: 'researching', 
         progress: 5,
-        logs: ['Initializing Creative Council...', `Target URL: ${state.url}`, `Market: ${state.country}`, `Assets: ${state.assets.length}`],
+        logs: ['Initializing Creative Council...', `Provider: ${PROVIDER_LABELS[state.providerSettings.provider]}`, `Model: ${describeRunModels(runSettings)}`, `Target URL: ${state.url}`, `Markets: ${state.markets.join(', ')}`, `Assets: ${state.assets.length}`, `Concurrency: ${describeConcurrency(state.providerSettings.concurrency)}`, ...(customPrompts ? [`Custom prompts: ${customPrompts}`] : [])],
         isLogExpanded: true,
+        currentRunId: null,
+        runStartedAt: Date.now(),
+        runSettings,
+        reviewStage: null,
         judgments: [], 
+        comparisons: [],
+        failedJudgments: [],
+        debate: [],
+        interviews: [],
+        usage: [],
+        personaJobs: {},
+        failedStage: null,
+        stageError: '',
+        synthesisStale: false,
         personas: [], 
         brandProfile: null, 
+        brief: null,
+        briefFits: [],
         finalReport: '',
     }));
 
-    const ai = new GoogleGenAI({ apiKey: state.apiKey });
-
-    try {
-      // 1. Research Agent
-      addLog("RESEARCH: Scanning digital footprint...");
-      const researchModel = ai.models;
-      const researchPrompt = PromptEngine.research(state.url);
-
-      const researchResp = await researchModel.generateContent({
-        model: MODEL_NAME,
-        contents: researchPrompt,
-        config: {
-          tools: [{ googleSearch: {} }],
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                name: { type: Type.STRING },
-                category: { type: Type.STRING },
-                tone: { type: Type.ARRAY, items: { type: Type.STRING } },
-                targetAudience: { type: Type.STRING },
-                brandColors: { type: Type.ARRAY, items: { type: Type.STRING } },
-                competitors: { type: Type.ARRAY, items: { type: Type.STRING } },
-                uniqueSellingPropositions: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ['name', 'category', 'tone', 'targetAudience']
-          }
-        }
-      });
-
-      const brandProfile = JSON.parse(researchResp.text || '{}') as BrandProfile;
-      addLog(`RESEARCH: Profile built for ${brandProfile.name}.`);
-      
-      setState(prev => ({ 
-          ...prev, 
-          brandProfile, 
-          status: 'creating_personas',
-          progress: 30 
-      }));
-
-      // 2. Persona Generator
-      addLog(`RECRUITMENT: Assembling ${state.numPersonas} distinct voices...`);
-      const personaPrompt = PromptEngine.personaGeneration(brandProfile, state.numPersonas, state.country);
-
-      const personaResp = await researchModel.generateContent({
-        model: MODEL_NAME,
-        contents: personaPrompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                name: { type: Type.STRING },
-                age: { type: Type.NUMBER },
-                occupation: { type: Type.STRING },
-                bio: { type: Type.STRING },
-                painPoints: { type: Type.ARRAY, items: { type: Type.STRING } }
-              },
-              required: ['id', 'name', 'age', 'occupation', 'bio', 'painPoints']
-            }
-          }
-        }
-      });
-
-      const personas = JSON.parse(personaResp.text || '[]') as Persona[];
-      personas.forEach(p => addLog(`RECRUITMENT: ${p.name} (${p.occupation}) joined the council.`));
-      
-      setState(prev => ({ 
-          ...prev, 
-          personas, 
-          status: 'judging',
-          progress: 50 
-      }));
-
-      // 3. Judging (Parallel)
-      addLog("COUNCIL: Deliberating on creative assets...");
-      
-      // Convert all assets to base64 parts
-      const mediaParts = await Promise.all(state.assets.map(async (asset) => {
-          const base64 = await new Promise<string>((resolve) => {
-              const reader = new FileReader();
-              reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-              reader.readAsDataURL(asset.file);
-          });
-          return {
-              inlineData: {
-                  mimeType: asset.mimeType,
-                  data: base64
-              }
-          };
-      }));
-
-      const judgmentPromises = personas.map(async (persona, index) => {
-        addLog(`JUDGE (${persona.name}): Reviewing campaign...`);
-        const prompt = PromptEngine.judgment(persona, brandProfile);
-
-        // Append prompt text to the media parts
-        const contents = {
-            parts: [...mediaParts, { text: prompt }]
-        };
+    runPipeline('research', { brandProfile: null, personas: [], judgments: [], comparisons: [], failedJudgments: [], debate: [], brief: null, briefFits: [] });
+  };
 
-        const resp = await ai.models.generateContent({
-          model: MODEL_NAME,
-          contents: contents,
-          config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                score: { type: Type.NUMBER },
-                quote: { type: Type.STRING },
-                pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-                cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-                verdict: { type: Type.STRING },
-                emotionalTags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                emotionalIntensity: { type: Type.NUMBER },
-                shareLikelihood: { type: Type.NUMBER },
-                trustPerception: { type: Type.STRING },
-                timecodedReactions: { 
-                  type: Type.ARRAY, 
-                  items: { 
-                    type: Type.OBJECT, 
-                    properties: {
-                      time: { type: Type.STRING },
-                      reaction: { type: Type.STRING }
-                    }
-                  } 
-                }
-              },
-              required: ['score', 'quote', 'pros', 'cons', 'verdict']
-            }
-          }
-        });
-        
-        const result = JSON.parse(resp.text || '{}');
-        addLog(`JUDGE (${persona.name}): Score ${result.score}/100.`);
-        setState(prev => ({...prev, progress: prev.progress + (30 / personas.length)}));
-        
-        return { ...result, personaId: persona.id } as Judgment;
-      });
+  // Resumes after a review checkpoint with whatever the user edited in the meantime
+  const continuePipeline = () => {
+    if (state.status !== 'reviewing' || !state.reviewStage) return;
+    const next = activeStages[activeStages.indexOf(state.reviewStage) + 1];
+    addLog(`REVIEW: Approved. Continuing to ${STAGE_LABELS[next]}.`);
+    runPipeline(next, pipelineContextFromState());
+  };
 
-      const judgments = await Promise.all(judgmentPromises);
-      
-      setState(prev => ({ 
-          ...prev, 
-          judgments, 
-          status: 'synthesizing',
-          progress: 85 
-      }));
+  const updateBrandProfile = (brandProfile: BrandProfile) => {
+    setState(prev => ({ ...prev, brandProfile }));
+  };
 
-      // 4. Synthesizer
-      addLog("SYNTHESIS: Finalizing strategy report...");
-      const synthesisPrompt = PromptEngine.synthesis(
-          brandProfile, 
-          judgments.map((j, i) => ({
-             personaId: personas[i].id,
-             personaName: personas[i].name,
-             role: personas[i].occupation,
-             age: personas[i].age,
-             score: j.score,
-             quote: j.quote,
-             verdict: j.verdict,
-             pros: j.pros,
-             cons: j.cons,
-             emotionalTags: j.emotionalTags,
-             emotionalIntensity: j.emotionalIntensity,
-             shareLikelihood: j.shareLikelihood,
-             trustPerception: j.trustPerception,
-             timecodedReactions: j.timecodedReactions
-          }))
-      );
+  const updateBrief = (brief: CreativeBrief) => {
+    setState(prev => ({ ...prev, brief }));
+  };
 
-      const synthesisResp = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: synthesisPrompt
-      });
+  const updatePersona = (persona: Persona) => {
+    setState(prev => ({ ...prev, personas: prev.personas.map(p => p.id === persona.id ? persona : p) }));
+  };
 
-      addLog("SYSTEM: Process complete.");
-      setState(prev => ({ 
-          ...prev, 
-          finalReport: synthesisResp.text || '', 
-          status: 'complete',
-          progress: 100 
-      }));
+  // Removing a persona also drops anything they already contributed
+  const removePersona = (id: string) => {
+    setState(prev => ({
+      ...prev,
+      personas: prev.personas.filter(p => p.id !== id),
+      judgments: prev.judgments.filter(j => j.personaId !== id),
+      comparisons: prev.comparisons.filter(c => c.personaId !== id),
+      debate: prev.debate.filter(t => t.personaId !== id)
+    }));
+  };
 
-    } catch (error) {
-      console.error(error);
-      addLog(`ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      alert("An error occurred. Please check the logs.");
-      setState(prev => ({ ...prev, status: 'idle', progress: 0 }));
-    }
+  const nextReviewStage = state.status === 'reviewing' && state.reviewStage
+      ? activeStages[activeStages.indexOf(state.reviewStage) + 1]
+      : null;
+  const isReviewing = state.status === 'reviewing';
+  const isFailed = state.status === 'failed';
+  const showReport = state.status === 'complete' || isReviewing || isFailed;
+
+  const completedStages: PipelineStage[] = state.status === 'complete'
+      ? PIPELINE_STAGES
+      : isReviewing && state.reviewStage
+        ? PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(state.reviewStage) + 1)
+        : isFailed && state.failedStage
+          ? PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(state.failedStage))
+          : PIPELINE_STAGES.slice(0, Math.max(0, PIPELINE_STAGES.findIndex(stage => STAGE_STATUS[stage] === state.status)));
+
+  const stageIcons: Record<PipelineStage, React.ReactNode> = {
+      research: <Icons.Research />,
+      personas: <Icons.Persona />,
+      judging: <Icons.Judge />,
+      debate: <Icons.Debate />,
+      synthesis: <Icons.Report />
   };
 
-  const isBtnDisabled = state.status !== 'idle' && state.status !== 'complete';
+  const isBtnDisabled = !showReport && state.status !== 'idle';
   const btnText = state.status === 'idle' 
       ? 'Initialize Council' 
       : state.status === 'complete' 
         ? 'Start New Analysis' 
-        : 'Processing...';
+        : nextReviewStage
+          ? `Continue to ${STAGE_LABELS[nextReviewStage]}`
+          : isFailed && state.failedStage
+            ? `Retry ${STAGE_LABELS[state.failedStage]}`
+            : 'Processing...';
 
   return (
     <div className="app-container">
-      {/* Hidden PDF Template - Placed outside flow with strict ID */}
-      {state.brandProfile && (
-         <PdfReportTemplate state={state} videoSnapshots={videoSnapshots} />
-      )}
-
       {/* Lightbox Overlay */}
       {viewingAsset && (
-        <MediaLightbox asset={viewingAsset} onClose={() => setViewingAsset(null)} />
+        <MediaLightbox
+          asset={viewingAsset}
+          reactions={collectTimelineReactions(state.judgments, state.personas, viewingAsset.id)}
+          onClose={() => setViewingAsset(null)}
+        />
       )}
 
       <SettingsModal 
         isOpen={state.isSettingsOpen} 
         onClose={() => setState(prev => ({ ...prev, isSettingsOpen: false }))}
-        apiKey={state.apiKey}
-        onSave={(key) => {
-            setState(prev => ({ ...prev, apiKey: key }));
-            localStorage.setItem('gemini_api_key', key);
+        settings={state.providerSettings}
+        onSave={(providerSettings) => {
+            setState(prev => ({ ...prev, providerSettings }));
+            saveProviderSettings(providerSettings);
+        }}
+      />
+
+      <PromptTemplateModal
+        isOpen={state.isTemplatesOpen}
+        onClose={() => setState(prev => ({ ...prev, isTemplatesOpen: false }))}
+        store={state.promptTemplates}
+        onChange={(promptTemplates) => {
+            setState(prev => ({ ...prev, promptTemplates }));
+            savePromptTemplates(promptTemplates);
         }}
+        locked={state.status !== 'idle' && state.status !== 'complete'}
+      />
+
+      <PersonaLibraryModal
+        isOpen={state.isLibraryOpen}
+        onClose={() => setState(prev => ({ ...prev, isLibraryOpen: false }))}
+        personas={library.personas}
+        councils={library.councils}
+        onChange={refreshLibrary}
+      />
+
+      <HistorySidebar
+        isOpen={state.isHistoryOpen}
+        onClose={() => setState(prev => ({ ...prev, isHistoryOpen: false }))}
+        runs={savedRuns}
+        currentRunId={state.currentRunId}
+        disabled={state.status !== 'idle' && state.status !== 'complete'}
+        onOpen={(id) => openRun(id)}
+        onRename={renameRun}
+        onDelete={deleteRun}
+        onExport={(id) => openRun(id, true)}
+        onImport={importRun}
       />
 
       {/* Left Column: Control Panel */}
@@ -1218,6 +8065,25 @@ const App: FC = () => {
                 <div className="logo-icon"><Icons.Council /></div>
                 <h1 className="brand-title">Creative Council</h1>
             </div>
+            <div style={{display: 'flex', alignItems: 'center'}}>
+            <button 
+                onClick={() => setState(prev => ({ ...prev, isHistoryOpen: true }))}
+                style={{background: 'none', border: 'none', color: '#a1a1aa', cursor: 'pointer', padding: '0.5rem', display: 'flex', alignItems: 'center', justifyContent: 'center'}}
+                title="Run History"
+            >
+                <div style={{width: '24px', height: '24px'}}>
+                    <Icons.History />
+                </div>
+            </button>
+            <button 
+                onClick={() => setState(prev => ({ ...prev, isTemplatesOpen: true }))}
+                style={{background: 'none', border: 'none', color: '#a1a1aa', cursor: 'pointer', padding: '0.5rem', display: 'flex', alignItems: 'center', justifyContent: 'center'}}
+                title="Prompt Templates"
+            >
+                <div style={{width: '24px', height: '24px'}}>
+                    <Icons.Prompt />
+                </div>
+            </button>
             <button 
                 onClick={() => setState(prev => ({ ...prev, isSettingsOpen: true }))}
                 style={{background: 'none', border: 'none', color: '#a1a1aa', cursor: 'pointer', padding: '0.5rem', display: 'flex', alignItems: 'center', justifyContent: 'center'}}
@@ -1227,6 +8093,7 @@ const App: FC = () => {
                     <Icons.Gear />
                 </div>
             </button>
+            </div>
         </header>
 
         <div className="input-group">
@@ -1242,13 +8109,105 @@ const App: FC = () => {
         </div>
 
         <div className="input-group">
-            <label className="input-label">Target Market</label>
+            <label className="input-label">{state.markets.length > 1 ? 'Target Markets' : 'Target Market'}</label>
             <CustomSelect 
-                value={state.country}
-                options={COUNTRIES}
-                onChange={(val) => setState({...state, country: val})}
+                value={state.markets[0]}
+                options={marketNames}
+                onChange={(val) => setState(prev => ({ ...prev, markets: [val, ...prev.markets.slice(1).filter(m => m !== val)] }))}
+                disabled={state.status !== 'idle' && state.status !== 'complete'}
+            />
+            {state.markets.length > 1 && (
+                <div className="tone-tags market-tags">
+                    {state.markets.slice(1).map(m => (
+                        <span key={m} className="tone-tag editable-tag">
+                            {m}
+                            <button
+                                onClick={() => setState(prev => ({ ...prev, markets: prev.markets.filter(x => x !== m) }))}
+                                disabled={state.status !== 'idle' && state.status !== 'complete'}
+                                title="Remove market"
+                            >×</button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            {(state.status === 'idle' || state.status === 'complete') && marketNames.some(c => !state.markets.includes(c)) && (
+                <CustomSelect
+                    value="+ Compare another market..."
+                    options={marketNames.filter(c => !state.markets.includes(c))}
+                    onChange={(val) => setState(prev => ({ ...prev, markets: [...prev.markets, val] }))}
+                    disabled={false}
+                />
+            )}
+            {state.markets.length > 1 && (
+                <p className="input-hint">One shared brand research; each market recruits its own council and the report compares them.</p>
+            )}
+            {state.customMarkets.length > 0 && (
+                <ul className="custom-markets">
+                    {state.customMarkets.map(m => (
+                        <li key={m.name} title={m.culturalNotes}>
+                            <span className="custom-market-name">{m.name}</span>
+                            <span className="custom-market-meta">{[m.region, m.language].filter(Boolean).join(' · ')}</span>
+                            <button
+                                onClick={() => removeCustomMarket(m.name)}
+                                disabled={state.status !== 'idle' && state.status !== 'complete'}
+                                title="Delete custom market"
+                            >×</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {(state.status === 'idle' || state.status === 'complete') && (
+                <CustomMarketForm taken={marketNames} onAdd={addCustomMarket} />
+            )}
+            <label className="toggle-row">
+                <input
+                    type="checkbox"
+                    checked={state.nativeLanguage}
+                    onChange={() => setState(prev => ({ ...prev, nativeLanguage: !prev.nativeLanguage }))}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+                <span className="toggle-switch"></span>
+                <span className="input-label">Local-Language Reactions</span>
+            </label>
+            {state.nativeLanguage && (
+                <p className="input-hint">
+                    {foreignMarkets.length
+                        ? `Personas in ${foreignMarkets.map(m => `${m.name} (${m.language})`).join(', ')} answer in their own language, with an English translation for the report.`
+                        : 'Every selected market speaks English, so reactions stay in English.'}
+                </p>
+            )}
+        </div>
+
+        <div className="input-group">
+            <label className="input-label">Creative Brief (Optional)</label>
+            <input
+                type="file"
+                ref={briefInputRef}
+                onChange={handleBriefFile}
+                accept=".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf"
+                style={{display: 'none'}}
                 disabled={state.status !== 'idle' && state.status !== 'complete'}
             />
+            {state.briefFile ? (
+                <div className="brief-file">
+                    <span>{state.briefFile.name}</span>
+                    {(state.status === 'idle' || state.status === 'complete') && (
+                        <button className="card-action-btn" onClick={() => setState(prev => ({ ...prev, briefFile: null }))}>Remove</button>
+                    )}
+                </div>
+            ) : (
+                <textarea
+                    className="text-input brief-input"
+                    rows={4}
+                    placeholder="Paste objectives, key message, mandatories and target..."
+                    value={state.briefText}
+                    onChange={(e) => setState({...state, briefText: e.target.value})}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+            )}
+            {(state.status === 'idle' || state.status === 'complete') && (
+                <button className="add-more-btn" onClick={() => briefInputRef.current?.click()}>Upload Brief (TXT, MD, PDF)</button>
+            )}
         </div>
 
         <div className="input-group">
@@ -1280,7 +8239,6 @@ const App: FC = () => {
                                 >
                                     {asset.mimeType.startsWith('video') ? (
                                         <video 
-                                            id={`video-preview-${asset.id}`}
                                             src={asset.previewUrl} 
                                             className="asset-thumbnail" 
                                             muted 
@@ -1319,6 +8277,26 @@ const App: FC = () => {
                                     <div className="zoom-hint-overlay">
                                         <Icons.Expand />
                                     </div>
+                                    {state.comparisonMode && (
+                                        <button
+                                            className={`variant-badge ${asset.variant ? '' : 'untagged'}`}
+                                            onClick={(e) => cycleVariant(asset.id, e)}
+                                            disabled={state.status !== 'idle' && state.status !== 'complete'}
+                                            title="Click to change variant"
+                                        >
+                                            {asset.variant || '–'}
+                                        </button>
+                                    )}
+                                    {isVideoAsset(asset) && (
+                                        <button
+                                            className={`strategy-badge ${resolveStrategy(asset, state.videoPreprocessing)}`}
+                                            onClick={(e) => toggleStrategy(asset.id, e)}
+                                            disabled={state.status !== 'idle' && state.status !== 'complete'}
+                                            title={`${describeVideo(asset.videoInfo)} · ${(asset.file.size / (1024 * 1024)).toFixed(1)} MB. ${strategyLabel(asset, state.videoPreprocessing)}. Click to switch.`}
+                                        >
+                                            {resolveStrategy(asset, state.videoPreprocessing) === 'keyframes' ? 'Frames' : 'Full'}
+                                        </button>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -1330,25 +8308,211 @@ const App: FC = () => {
             </div>
         </div>
 
+        <div className="input-group">
+            <label className="toggle-row">
+                <input
+                    type="checkbox"
+                    checked={state.comparisonMode}
+                    onChange={toggleComparisonMode}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+                <span className="toggle-switch"></span>
+                <span className="input-label">A/B Comparison Mode</span>
+            </label>
+            <label className="toggle-row">
+                <input
+                    type="checkbox"
+                    checked={state.reviewMode}
+                    onChange={() => setState(prev => ({ ...prev, reviewMode: !prev.reviewMode }))}
+                    disabled={state.status !== 'idle' && state.status !== 'complete' && !isReviewing}
+                />
+                <span className="toggle-switch"></span>
+                <span className="input-label">Review Between Stages</span>
+            </label>
+            {state.comparisonMode && (
+                <p className="input-hint">Tap the badge on each asset to tag it as variant {VARIANT_LABELS.join(' / ')}.</p>
+            )}
+        </div>
+
+        <div className="input-group">
+            <div className="range-container">
+                <label className="input-label" style={{flexGrow: 1}}>Council Source</label>
+                <button className="link-btn" onClick={() => setState(prev => ({ ...prev, isLibraryOpen: true }))}>Manage Library</button>
+            </div>
+            <div className="segmented-control">
+                {([['generate', 'Generate New'], ['saved', 'Saved Council'], ['mix', 'Mix']] as [PersonaSource, string][]).map(([value, label]) => (
+                    <button
+                        key={value}
+                        className={state.personaSource === value ? 'active' : ''}
+                        onClick={() => setState(prev => ({ ...prev, personaSource: value }))}
+                        disabled={state.status !== 'idle' && state.status !== 'complete'}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {state.personaSource !== 'generate' && (
+                library.councils.length > 0 ? (
+                    <CustomSelect
+                        value={library.councils.find(c => c.id === state.selectedCouncilId)?.name || 'Choose a council...'}
+                        options={library.councils.map(c => c.name)}
+                        onChange={(name) => setState(prev => ({ ...prev, selectedCouncilId: library.councils.find(c => c.name === name)?.id || null }))}
+                        disabled={state.status !== 'idle' && state.status !== 'complete'}
+                    />
+                ) : (
+                    <p className="input-hint">No saved councils yet. Save one from a finished run or build one in the library.</p>
+                )
+            )}
+        </div>
+
+        {state.personaSource !== 'saved' && (
         <div className="input-group">
             <div className="range-container">
-                <label className="input-label" style={{flexGrow: 1}}>Council Size</label>
+                <label className="input-label" style={{flexGrow: 1}}>{state.personaSource === 'mix' ? 'New Personas' : 'Council Size'}{state.markets.length > 1 ? ' per Market' : ''}</label>
                 <span className="range-value">{state.numPersonas}</span>
             </div>
             <input 
                 type="range" 
                 min="1" 
-                max="5" 
+                max={MAX_COUNCIL_SIZE} 
                 className="range-input"
                 value={state.numPersonas}
                 onChange={(e) => setState({...state, numPersonas: parseInt(e.target.value)})}
                 disabled={state.status !== 'idle' && state.status !== 'complete'}
             />
+            {state.numPersonas > PERSONA_BATCH_SIZE && (
+                <p className="input-hint">
+                    Recruited in batches of {PERSONA_BATCH_SIZE}. Calls queue at {describeConcurrency(state.providerSettings.concurrency)}; change this in Settings.
+                </p>
+            )}
+        </div>
+        )}
+
+        {state.assets.some(isVideoAsset) && (
+        <div className="input-group">
+            <label className="input-label">Video Keyframes</label>
+            <div className="keyframe-options">
+                <CustomSelect
+                    value={KEYFRAME_MODE_LABELS[state.videoPreprocessing.mode]}
+                    options={Object.values(KEYFRAME_MODE_LABELS)}
+                    onChange={(label) => updateVideoPreprocessing({ mode: (Object.keys(KEYFRAME_MODE_LABELS) as KeyframeMode[]).find(m => KEYFRAME_MODE_LABELS[m] === label) })}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+                {state.videoPreprocessing.mode === 'rate' ? (
+                    <label className="keyframe-field">
+                        Every
+                        <input
+                            type="number"
+                            className="text-input"
+                            min="0.5"
+                            max="30"
+                            step="0.5"
+                            value={state.videoPreprocessing.interval}
+                            onChange={(e) => updateVideoPreprocessing({ interval: Math.max(0.5, parseFloat(e.target.value) || 0.5) })}
+                            disabled={state.status !== 'idle' && state.status !== 'complete'}
+                        />
+                        s
+                    </label>
+                ) : (
+                    <label className="keyframe-field">
+                        Sensitivity
+                        <input
+                            type="range"
+                            className="range-input"
+                            min="1"
+                            max="10"
+                            value={state.videoPreprocessing.sceneThreshold}
+                            onChange={(e) => updateVideoPreprocessing({ sceneThreshold: parseInt(e.target.value) })}
+                            disabled={state.status !== 'idle' && state.status !== 'complete'}
+                        />
+                        <span className="range-value">{state.videoPreprocessing.sceneThreshold}</span>
+                    </label>
+                )}
+                <label className="keyframe-field">
+                    Keyframes above
+                    <input
+                        type="number"
+                        className="text-input"
+                        min="1"
+                        max="1024"
+                        value={state.videoPreprocessing.inlineLimitMb}
+                        onChange={(e) => updateVideoPreprocessing({ inlineLimitMb: Math.max(1, parseInt(e.target.value) || 1) })}
+                        disabled={state.status !== 'idle' && state.status !== 'complete'}
+                    />
+                    MB
+                </label>
+            </div>
+            <p className="input-hint">Keyframes are sampled in the browser and sent as images with timestamps; the model hears no audio. Click a video's badge to override.</p>
+        </div>
+        )}
+
+        <div className="input-group">
+            <div className="range-container">
+                <label className="input-label" style={{flexGrow: 1}}>Samples per Persona</label>
+                <span className="range-value">{state.samplesPerPersona}</span>
+            </div>
+            <input
+                type="range"
+                min="1"
+                max={MAX_SAMPLES}
+                className="range-input"
+                value={state.samplesPerPersona}
+                onChange={(e) => setState({...state, samplesPerPersona: parseInt(e.target.value)})}
+                disabled={state.status !== 'idle' && state.status !== 'complete'}
+            />
+            {state.samplesPerPersona > 1 && (
+                <p className="input-hint">
+                    Each persona judges every asset {state.samplesPerPersona} times, multiplying the judging calls. The report shows 95% confidence intervals and flags personas whose scores move by more than ±{UNSTABLE_SCORE_SD}. A temperature of 0 makes the samples identical.
+                </p>
+            )}
+        </div>
+
+        <div className="input-group">
+            <div className="range-container">
+                <label className="input-label" style={{flexGrow: 1}}>Debate Rounds</label>
+                <span className="range-value">{state.debateRounds || 'Off'}</span>
+            </div>
+            <input
+                type="range"
+                min="0"
+                max="3"
+                className="range-input"
+                value={state.debateRounds}
+                onChange={(e) => setState({...state, debateRounds: parseInt(e.target.value)})}
+                disabled={state.status !== 'idle' && state.status !== 'complete'}
+            />
+        </div>
+
+        <div className="input-group">
+            <label className="input-label">Budget Cap (USD)</label>
+            <div className="budget-row">
+                <input
+                    type="number"
+                    className="text-input"
+                    min="0"
+                    step="0.5"
+                    placeholder="No cap"
+                    value={state.budget || ''}
+                    onChange={(e) => setState({...state, budget: Math.max(0, parseFloat(e.target.value) || 0)})}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+                <CustomSelect
+                    value={BUDGET_MODE_LABELS[state.budgetMode]}
+                    options={Object.values(BUDGET_MODE_LABELS)}
+                    onChange={(label) => setState(prev => ({ ...prev, budgetMode: label === BUDGET_MODE_LABELS.abort ? 'abort' : 'warn' }))}
+                    disabled={state.status !== 'idle' && state.status !== 'complete'}
+                />
+            </div>
+            {state.assets.length > 0 && (
+                <p className={`input-hint ${state.budget > 0 && runEstimate.cost > state.budget ? 'over-budget' : ''}`}>
+                    Estimated ~{formatCost(runEstimate.cost)} for {runEstimate.calls} calls ({formatTokens(runEstimate.inputTokens + runEstimate.outputTokens)} tokens at the configured prices).
+                </p>
+            )}
         </div>
 
         <button 
             className="cta-button" 
-            onClick={handleStartAnalysis}
+            onClick={isReviewing ? continuePipeline : isFailed ? retryStage : handleStartAnalysis}
             disabled={isBtnDisabled || (state.assets.length === 0 && state.status !== 'complete')}
         >
             {btnText}
@@ -1359,34 +8523,24 @@ const App: FC = () => {
         )}
 
         <div className="status-list">
-            <StatusStep 
-                label="Brand Intelligence" 
-                active={state.status === 'researching'} 
-                done={['creating_personas', 'judging', 'synthesizing', 'complete'].includes(state.status)}
-                icon={<Icons.Research />} 
-            />
-            <StatusStep 
-                label="Persona Assembly" 
-                active={state.status === 'creating_personas'} 
-                done={['judging', 'synthesizing', 'complete'].includes(state.status)}
-                icon={<Icons.Persona />} 
-            />
-            <StatusStep 
-                label="Council Deliberation" 
-                active={state.status === 'judging'} 
-                done={['synthesizing', 'complete'].includes(state.status)}
-                icon={<Icons.Judge />} 
-            />
-            <StatusStep 
-                label="Strategic Synthesis" 
-                active={state.status === 'synthesizing'} 
-                done={state.status === 'complete'}
-                icon={<Icons.Report />} 
-            />
+            {activeStages.map(stage => (
+                <StatusStep 
+                    key={stage}
+                    label={isReviewing && state.reviewStage === stage ? `${STAGE_LABELS[stage]} — Review` : STAGE_LABELS[stage]} 
+                    active={state.status === STAGE_STATUS[stage] || (isReviewing && state.reviewStage === stage)} 
+                    done={completedStages.includes(stage) && !(isReviewing && state.reviewStage === stage)}
+                    failed={isFailed && state.failedStage === stage}
+                    icon={stageIcons[stage]} 
+                />
+            ))}
         </div>
         
         <AgentNeuralFeed 
             logs={state.logs} 
+            usage={state.usage}
+            budget={state.budget}
+            jobs={state.personaJobs}
+            personas={state.personas}
             expanded={state.isLogExpanded} 
             onToggle={() => setState(prev => ({...prev, isLogExpanded: !prev.isLogExpanded}))}
         />
@@ -1396,7 +8550,7 @@ const App: FC = () => {
       <div className="report-panel">
         
         {/* Processing Animation State */}
-        {state.status !== 'idle' && state.status !== 'complete' && (
+        {state.status !== 'idle' && !showReport && (
             <ProcessingVisualizer status={state.status} />
         )}
         
@@ -1407,18 +8561,101 @@ const App: FC = () => {
                 <p>Awaiting inputs for analysis.</p>
             </div>
         ) : (
-            <div className={`report-content-flow ${state.status !== 'complete' ? 'hidden' : ''}`}>
+            <div className={`report-content-flow ${!showReport ? 'hidden' : ''}`}>
+                {isFailed && state.failedStage && (
+                    <div className="review-banner failed-banner">
+                        <div>
+                            <span className="review-banner-label">{STAGE_LABELS[state.failedStage]} Failed</span>
+                            <p>
+                                {state.stageError} Everything completed before this stage is kept below.
+                                Retry the stage or discard the run.
+                            </p>
+                        </div>
+                        <div className="editor-actions">
+                            <button className="secondary-btn" onClick={discardFailedRun}>Discard</button>
+                            <button className="secondary-btn primary" onClick={retryStage}>Retry</button>
+                        </div>
+                    </div>
+                )}
+
+                {isReviewing && state.reviewStage && nextReviewStage && (
+                    <div className="review-banner">
+                        <div>
+                            <span className="review-banner-label">Review Checkpoint</span>
+                            <p>
+                                {STAGE_LABELS[state.reviewStage]} is done. Correct the brand profile or edit and remove personas below,
+                                then continue to {STAGE_LABELS[nextReviewStage]}.
+                            </p>
+                        </div>
+                        <button className="secondary-btn primary" onClick={continuePipeline}>Continue</button>
+                    </div>
+                )}
+
+                {state.status === 'complete' && (
+                    <div className="report-toolbar">
+                        {state.synthesisStale && (
+                            <button className="secondary-btn primary" onClick={refreshSynthesis} title="New verdicts arrived after the report was written">
+                                Refresh Synthesis
+                            </button>
+                        )}
+                        <button className="secondary-btn" onClick={handleDownloadReport} disabled={state.isDownloading}>
+                            <Icons.Download /> {state.isDownloading ? 'Preparing PDF...' : 'Download PDF Report'}
+                        </button>
+                        <button className="secondary-btn" onClick={handleExportHtml} title="Interactive report that opens offline">HTML</button>
+                        <button className="secondary-btn" onClick={handleExportJson} title="Full run, re-importable from Run History">JSON</button>
+                        <button className="secondary-btn" onClick={handleExportCsv} title="One row per persona per asset">CSV</button>
+                        <button className="secondary-btn" onClick={handleExportMarkdown}>Markdown</button>
+                        {state.interviews.length > 0 && (
+                            <label className="toggle-row">
+                                <input
+                                    type="checkbox"
+                                    checked={state.includeInterviews}
+                                    onChange={() => setState(prev => ({ ...prev, includeInterviews: !prev.includeInterviews }))}
+                                />
+                                <span className="toggle-switch"></span>
+                                <span className="input-label">Include Interviews</span>
+                            </label>
+                        )}
+                    </div>
+                )}
+
                 {state.brandProfile && (
                     <div className="fade-in">
-                        <BrandSection brand={state.brandProfile} />
+                        <BrandSection brand={state.brandProfile} onChange={isReviewing ? updateBrandProfile : undefined} />
+                    </div>
+                )}
+
+                {state.brief && (
+                    <div className="fade-in">
+                        <BriefSection brief={state.brief} onChange={isReviewing && state.reviewStage === 'research' ? updateBrief : undefined} />
                     </div>
                 )}
 
                 {state.personas.length > 0 && (
                     <div className="fade-in">
-                        <h2 className="section-title" style={{marginTop: '2rem'}}>The Council</h2>
+                        <div className="section-title-row">
+                            <h2 className="section-title" style={{marginTop: '2rem'}}>The Council</h2>
+                            <button
+                                className="secondary-btn"
+                                onClick={() => savePersonasToLibrary(state.personas, `${state.brandProfile?.name || 'Council'} — ${new Date().toLocaleDateString()}`)
+                                    .then(() => alert('Council saved to the persona library.'))}
+                            >
+                                Save Council to Library
+                            </button>
+                        </div>
                         <div className="persona-grid">
-                            {state.personas.map((p, i) => <PersonaCard key={i} persona={p} />)}
+                            {state.personas.map((p, i) => (
+                                <PersonaCard
+                                    key={p.id}
+                                    persona={p}
+                                    onSaveToLibrary={() => savePersonasToLibrary([p]).then(() => alert(`${p.name} saved to the persona library.`))}
+                                    onEdit={isReviewing ? updatePersona : undefined}
+                                    onRemove={isReviewing && state.personas.length > 1 ? () => removePersona(p.id) : undefined}
+                                    failedCount={state.failedJudgments.filter(f => f.personaId === p.id).length}
+                                    retrying={state.retryingPersonaIds.includes(p.id)}
+                                    onRetry={showReport ? () => retryPersona(p.id) : undefined}
+                                />
+                            ))}
                         </div>
                     </div>
                 )}
@@ -1426,9 +8663,67 @@ const App: FC = () => {
                 {state.judgments.length > 0 && (
                     <div className="fade-in">
                          <h2 className="section-title" style={{marginTop: '2rem'}}>Verdicts</h2>
-                         {state.judgments.map((j, i) => (
-                             <Scorecard key={i} judgment={j} persona={state.personas[i]} />
-                         ))}
+                         {state.assets.map((asset, ai) => {
+                             const assetJudgments = state.judgments.filter(j => j.assetId === asset.id);
+                             const assetFailures = state.failedJudgments.filter(f => f.assetId === asset.id);
+                             if (assetJudgments.length === 0 && assetFailures.length === 0) return null;
+                             return (
+                                 <div key={asset.id} className="asset-verdict-group">
+                                     <div className="asset-verdict-header" onClick={() => setViewingAsset(asset)}>
+                                         <div className="asset-verdict-thumb">
+                                             {asset.mimeType.startsWith('video') ? (
+                                                 <video src={asset.previewUrl} muted />
+                                             ) : (
+                                                 <img src={asset.previewUrl} alt={asset.file.name} />
+                                             )}
+                                         </div>
+                                         <div className="asset-verdict-info">
+                                             <span className="asset-verdict-index">Execution {ai + 1}</span>
+                                             <h3>{asset.file.name}</h3>
+                                             {isVideoAsset(asset) && (
+                                                 <span className="asset-verdict-media" title={asset.keyframes?.map(formatTimecode).join(', ')}>
+                                                     {describeVideo(asset.videoInfo)} · Judged from {judgedFrom(asset)?.toLowerCase()}
+                                                 </span>
+                                             )}
+                                         </div>
+                                         <div className="asset-verdict-avg">
+                                             <span>{averageScore(assetJudgments)}</span>
+                                             <label>Avg. Score</label>
+                                         </div>
+                                     </div>
+                                     {assetJudgments.map(j => {
+                                         const persona = state.personas.find(p => p.id === j.personaId);
+                                         return persona && (
+                                             <Scorecard
+                                                 key={`${j.personaId}-${j.assetId}`}
+                                                 judgment={j}
+                                                 persona={persona}
+                                                 interview={interviewOf(state, j.personaId, j.assetId)}
+                                                 onAsk={state.status === 'complete' ? question => askPersona(j.personaId, j.assetId, question) : undefined}
+                                             />
+                                         );
+                                     })}
+                                     {assetFailures.map(f => {
+                                         const persona = state.personas.find(p => p.id === f.personaId);
+                                         return persona && (
+                                             <div key={`${f.personaId}-${f.assetId}`} className="failed-judgment">
+                                                 <div>
+                                                     <h4>{persona.name}</h4>
+                                                     <span>No verdict — {f.error}</span>
+                                                 </div>
+                                                 <button
+                                                     className="card-action-btn"
+                                                     onClick={() => retryPersona(persona.id)}
+                                                     disabled={!showReport || state.retryingPersonaIds.includes(persona.id)}
+                                                 >
+                                                     {state.retryingPersonaIds.includes(persona.id) ? 'Retrying...' : 'Retry'}
+                                                 </button>
+                                             </div>
+                                         );
+                                     })}
+                                 </div>
+                             );
+                         })}
                     </div>
                 )}
 
@@ -1444,13 +8739,27 @@ const App: FC = () => {
                                 </div>
                             </div>
                             
-                            <AnalyticsDashboard judgments={state.judgments} />
+                            <AnalyticsDashboard judgments={state.judgments} personas={state.personas} assets={state.assets} />
+
+                            <StatisticsTables judgments={state.judgments} personas={state.personas} assets={state.assets} />
+
+                            <MarketComparison judgments={state.judgments} personas={state.personas} assets={state.assets} markets={state.markets} />
+
+                            <BriefFitDashboard briefFits={state.briefFits} assets={state.assets} />
+
+                            <PaletteCompliance paletteChecks={state.paletteChecks} assets={state.assets} brandColors={state.brandProfile?.brandColors || []} />
+
+                            <ComparisonDashboard comparisons={state.comparisons} personas={state.personas} assets={state.assets} />
+
+                            <DebateDashboard judgments={state.judgments} personas={state.personas} assets={state.assets} debate={state.debate} />
 
                             {state.finalReport && (
                                 <div className="synthesis-content">
                                     <ReactMarkdown remarkPlugins={[remarkGfm]}>{state.finalReport}</ReactMarkdown>
                                 </div>
                             )}
+
+                            <CostBreakdown usage={state.usage} personas={state.personas} />
                             
                             <div className="report-footer-internal">
                                 CREATIVE COUNCIL AI • PROPRIETARY ANALYSIS